@@ -0,0 +1,167 @@
+import {TemplateScan} from './dependencies';
+
+/**
+ * Kinds of problems `analyzeSaveAsPathOptions()` reports:
+ * - `syntax` - expression can't be parsed
+ * - `unknown-variable` - expression uses a variable that doesn't exist
+ * - `runtime` - expression throws when evaluated with sample values
+ * - `incrementer` - invalid incrementer template
+ * - `backslash` - backslash in template text, which escapes the next character
+ * - `windows-path` - absolute Windows path on a different platform
+ * - `no-filename` - template resolves to a directory
+ * - `same-as-input` - destination is the input file, which is not being deleted
+ * - `nondeterministic-overwrite` - random values in a template that is supposed to overwrite
+ */
+export type TemplateProblemCode =
+	| 'syntax'
+	| 'unknown-variable'
+	| 'runtime'
+	| 'incrementer'
+	| 'backslash'
+	| 'windows-path'
+	| 'no-filename'
+	| 'same-as-input'
+	| 'nondeterministic-overwrite';
+
+export interface TemplateProblem {
+	severity: 'error' | 'warning';
+	code: TemplateProblemCode;
+	// Option with the template the offsets point into
+	option: 'destination' | 'incrementerTemplate';
+	message: string;
+	start: number;
+	end: number;
+	suggestion?: string;
+}
+
+export interface SaveAsPathAnalysis {
+	problems: TemplateProblem[];
+	// Destination template expanded with sample values, `null` when it fails
+	sample: string | null;
+}
+
+const NONDETERMINISTIC_VARIABLES = ['uid', 'seq'];
+
+/**
+ * Checks that each top level expression can be parsed as JavaScript,
+ * without evaluating it.
+ */
+export function findSyntaxProblems(template: string, scan: TemplateScan) {
+	const problems: TemplateProblem[] = [];
+
+	for (const {start, end} of scan.expressions) {
+		try {
+			new Function(`return (${template.slice(start, end)}\n);`);
+		} catch (error) {
+			problems.push({
+				severity: 'error',
+				code: 'syntax',
+				option: 'destination',
+				message: (error as any)?.message || `${error}`,
+				start,
+				end,
+			});
+		}
+	}
+
+	return problems;
+}
+
+/**
+ * Reports references to variables that are not in `knownNames`, or globals.
+ */
+export function findUnknownVariables(scan: TemplateScan, knownNames: string[]) {
+	const problems: TemplateProblem[] = [];
+
+	for (const {name, start, end} of scan.references) {
+		if (knownNames.includes(name) || scan.locals.has(name) || name in globalThis) continue;
+		const suggestion = suggestName(name, knownNames);
+		problems.push({
+			severity: 'error',
+			code: 'unknown-variable',
+			option: 'destination',
+			message: `Unknown variable "${name}"${suggestion ? `, did you mean "${suggestion}"?` : '.'}`,
+			start,
+			end,
+			...(suggestion ? {suggestion} : undefined),
+		});
+	}
+
+	return problems;
+}
+
+/**
+ * Finds template patterns that are valid, but most likely not what the user
+ * wants.
+ */
+export function lintTemplate(
+	template: string,
+	scan: TemplateScan,
+	{isOverwriting, platform = process.platform}: {isOverwriting: boolean; platform?: string}
+) {
+	const problems: TemplateProblem[] = [];
+	const warn = (code: TemplateProblemCode, message: string, start: number, end: number) =>
+		problems.push({severity: 'warning', code, option: 'destination', message, start, end});
+
+	for (const position of scan.backslashes) {
+		warn(
+			'backslash',
+			`Backslash escapes the next character. Use "/" to separate directories, it works on all platforms.`,
+			position,
+			Math.min(position + 2, template.length)
+		);
+	}
+
+	const windowsRoot = /^(?:[a-zA-Z]:[\\/]|\\\\)/.exec(template);
+	if (windowsRoot && platform !== 'win32') {
+		warn('windows-path', `Absolute Windows path doesn't work on this platform.`, 0, windowsRoot[0].length);
+	}
+
+	if (isOverwriting) {
+		for (const {name, start, end} of scan.references) {
+			if (!NONDETERMINISTIC_VARIABLES.includes(name) || scan.locals.has(name)) continue;
+			warn(
+				'nondeterministic-overwrite',
+				`"${name}" produces a different name every time, so existing files will never be overwritten.`,
+				start,
+				end
+			);
+		}
+	}
+
+	return problems;
+}
+
+/**
+ * Finds the most similar name, if any is similar enough.
+ */
+export function suggestName(name: string, names: string[]) {
+	const maxDistance = Math.max(1, Math.floor(name.length / 3));
+	let suggestion: string | undefined;
+	let suggestionDistance = Infinity;
+
+	for (const candidate of names) {
+		const distance = levenshtein(name.toLowerCase(), candidate.toLowerCase());
+		if (distance <= maxDistance && distance < suggestionDistance) {
+			suggestion = candidate;
+			suggestionDistance = distance;
+		}
+	}
+
+	return suggestion;
+}
+
+function levenshtein(a: string, b: string) {
+	let previous = Array.from({length: b.length + 1}, (_, index) => index);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(current[j - 1]! + 1, previous[j]! + 1, previous[j - 1]! + cost);
+		}
+		previous = current;
+	}
+
+	return previous[b.length]!;
+}
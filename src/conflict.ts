@@ -0,0 +1,139 @@
+import {promises as FSP} from 'fs';
+import {hashPath, OperationHooks} from './progress';
+
+/**
+ * What to do when destination already exists:
+ * - `increment` - increment the filename until there's no conflict
+ * - `overwrite` - overwrite the existing file
+ * - `skip` - keep the existing file, and discard the new one
+ * - `overwrite-if-newer` - overwrite when the input the new file was made from
+ *   has a newer modification time
+ * - `overwrite-if-larger` - overwrite when new file is larger
+ * - `overwrite-if-smaller` - overwrite when new file is smaller
+ * - `overwrite-if-identical-checksum` - overwrite when both files have identical contents
+ * - `fail` - throw `ConflictError`
+ *
+ * Conditional strategies increment when their condition is not met.
+ */
+export type ConflictStrategy =
+	| 'increment'
+	| 'overwrite'
+	| 'skip'
+	| 'overwrite-if-newer'
+	| 'overwrite-if-larger'
+	| 'overwrite-if-smaller'
+	| 'overwrite-if-identical-checksum'
+	| 'fail';
+
+/**
+ * What to do when output is a directory, and destination is an existing
+ * directory:
+ * - `conflict` - same as files, as decided by the conflict strategy, where
+ *   overwriting replaces the existing directory
+ * - `merge` - move contents into the existing directory, replacing files that
+ *   are in both
+ * - `replace` - replace the existing directory
+ * - `increment` - increment the directory name until there's no conflict
+ */
+export type DirectoryConflictPolicy = 'conflict' | 'merge' | 'replace' | 'increment';
+
+export type ConflictAction = 'increment' | 'overwrite' | 'skip' | 'fail';
+
+/**
+ * Custom conflict policy. Receives path to the existing file, and path to the
+ * new file that is competing for its spot.
+ */
+export interface ConflictResolver {
+	(existingPath: string, candidatePath: string): ConflictAction | Promise<ConflictAction>;
+}
+
+export class ConflictError extends Error {
+	existingPath: string;
+
+	constructor(existingPath: string) {
+		super(`Destination "${existingPath}" already exists.`);
+		this.existingPath = existingPath;
+	}
+}
+
+export const conflictStrategies: Record<ConflictStrategy, string> = {
+	increment: 'Increment filename',
+	overwrite: 'Overwrite',
+	skip: 'Skip (keep existing file)',
+	'overwrite-if-newer': 'Overwrite if newer',
+	'overwrite-if-larger': 'Overwrite if larger',
+	'overwrite-if-smaller': 'Overwrite if smaller',
+	'overwrite-if-identical-checksum': 'Overwrite if identical',
+	fail: 'Fail',
+};
+
+export const directoryConflictPolicies: Record<DirectoryConflictPolicy, string> = {
+	conflict: 'Same as files',
+	merge: 'Merge into existing',
+	replace: 'Replace existing',
+	increment: 'Increment name',
+};
+
+/**
+ * Conflict strategy of options, with deprecated `overwriteDestination` taken
+ * into account. Profiles saved before `conflict` existed get its default
+ * `increment`, so an enabled `overwriteDestination` still overrides it.
+ */
+export function getConflictStrategy({
+	conflict = 'increment',
+	overwriteDestination = false,
+}: {
+	conflict?: ConflictStrategy;
+	overwriteDestination?: boolean;
+}): ConflictStrategy {
+	return conflict === 'increment' && overwriteDestination ? 'overwrite' : conflict;
+}
+
+/**
+ * Turns a built-in strategy into an action for a specific pair of files.
+ *
+ * `sourcePath` is the input candidate was made from. Candidate itself has
+ * just been written, so its modification time says nothing about its age.
+ */
+export async function resolveConflictStrategy(
+	strategy: ConflictStrategy,
+	existingPath: string,
+	candidatePath: string,
+	hooks: OperationHooks = {},
+	sourcePath = candidatePath
+): Promise<ConflictAction> {
+	switch (strategy) {
+		case 'increment':
+		case 'overwrite':
+		case 'skip':
+		case 'fail':
+			return strategy;
+	}
+
+	if (strategy === 'overwrite-if-identical-checksum') {
+		const [existingChecksum, candidateChecksum] = await Promise.all([
+			hashPath(existingPath, 'sha256', hooks),
+			hashPath(candidatePath, 'sha256', hooks),
+		]);
+		return existingChecksum === candidateChecksum ? 'overwrite' : 'increment';
+	}
+
+	const [existingStat, candidateStat] = await Promise.all([FSP.stat(existingPath), FSP.stat(candidatePath)]);
+	let overwrite = false;
+
+	switch (strategy) {
+		case 'overwrite-if-newer': {
+			const sourceStat = sourcePath === candidatePath ? candidateStat : await FSP.stat(sourcePath);
+			overwrite = sourceStat.mtimeMs > existingStat.mtimeMs;
+			break;
+		}
+		case 'overwrite-if-larger':
+			overwrite = candidateStat.size > existingStat.size;
+			break;
+		case 'overwrite-if-smaller':
+			overwrite = candidateStat.size < existingStat.size;
+			break;
+	}
+
+	return overwrite ? 'overwrite' : 'increment';
+}
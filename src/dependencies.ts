@@ -0,0 +1,190 @@
+const IDENTIFIER_START = /[\p{ID_Start}$_]/u;
+const IDENTIFIER_PART = /[\p{ID_Continue}$\u200c\u200d]/u;
+const KEYWORDS = new Set([
+	'await',
+	'break',
+	'case',
+	'catch',
+	'class',
+	'const',
+	'continue',
+	'debugger',
+	'default',
+	'delete',
+	'do',
+	'else',
+	'false',
+	'finally',
+	'for',
+	'function',
+	'if',
+	'in',
+	'instanceof',
+	'let',
+	'new',
+	'null',
+	'of',
+	'return',
+	'super',
+	'switch',
+	'this',
+	'throw',
+	'true',
+	'try',
+	'typeof',
+	'undefined',
+	'var',
+	'void',
+	'while',
+	'with',
+	'yield',
+]);
+
+export interface TemplateReference {
+	name: string;
+	start: number;
+	end: number;
+}
+
+export interface TemplateScan {
+	// Variable references, including arrow function parameters used in bodies
+	references: TemplateReference[];
+	// Spans of top level `${}` expressions, without the braces
+	expressions: {start: number; end: number}[];
+	// Names of arrow function parameters
+	locals: Set<string>;
+	// Positions of backslashes in the top level template text
+	backslashes: number[];
+}
+
+const OBJECT_KEY_END = /\s*:/y;
+const ARROW_PARAMS = /\(\s*([^()]*?)\s*\)\s*=>|([\p{ID_Start}$_][\p{ID_Continue}$\u200c\u200d]*)\s*=>/uy;
+
+/**
+ * Lists names of all variables template expressions reference, in order of
+ * their first appearance.
+ *
+ * Property names (`foo` in `${bar.foo}`, or `${fn({foo: 1})}`) are not
+ * references. The list errs on the side of including too much, so it might
+ * also contain things like variables of arrow function bodies, or global
+ * objects such as `Math`.
+ */
+export function getTemplateDependencies(template: string): string[] {
+	return [...new Set(scanTemplate(template).references.map((reference) => reference.name))];
+}
+
+/**
+ * Finds variable references and other interesting parts of a template
+ * without evaluating it.
+ */
+export function scanTemplate(template: string): TemplateScan {
+	const scan: TemplateScan = {references: [], expressions: [], locals: new Set(), backslashes: []};
+	let index = 0;
+
+	/**
+	 * Scans template literal text until its closing backtick, or the end of
+	 * the template for the top level one.
+	 */
+	function scanText(isNested: boolean) {
+		while (index < template.length) {
+			const char = template[index]!;
+
+			if (char === '\\') {
+				if (!isNested) scan.backslashes.push(index);
+				index += 2;
+			} else if (char === '`' && isNested) {
+				index++;
+				return;
+			} else if (char === '$' && template[index + 1] === '{') {
+				index += 2;
+				const start = index;
+				scanExpression();
+				if (!isNested) scan.expressions.push({start, end: Math.max(start, index - 1)});
+			} else {
+				index++;
+			}
+		}
+	}
+
+	/**
+	 * Scans expression until its closing brace.
+	 */
+	function scanExpression() {
+		let depth = 0;
+		// Last significant character, used to recognize property access
+		let previous = '';
+
+		while (index < template.length) {
+			const char = template[index]!;
+
+			if (previous !== '.' && (char === '(' || IDENTIFIER_START.test(char))) {
+				ARROW_PARAMS.lastIndex = index;
+				const arrow = ARROW_PARAMS.exec(template);
+				if (arrow) {
+					for (const param of (arrow[1] ?? arrow[2] ?? '').split(',')) {
+						const name = param.trim();
+						if (name) scan.locals.add(name);
+					}
+					index += arrow[0].length;
+					previous = '>';
+					continue;
+				}
+			}
+
+			if (char === '`') {
+				index++;
+				scanText(true);
+				previous = '`';
+			} else if (char === '"' || char === "'") {
+				index = skipString(template, index);
+				previous = char;
+			} else if (char === '{') {
+				depth++;
+				index++;
+				previous = char;
+			} else if (char === '}') {
+				index++;
+				if (depth-- === 0) return;
+				previous = char;
+			} else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(template[index + 1] || ''))) {
+				// Numbers, including things like `1.5e3`, or `0xff`
+				while (index < template.length && /[\w.]/.test(template[index]!)) index++;
+				previous = '0';
+			} else if (IDENTIFIER_START.test(char)) {
+				const start = index;
+				while (index < template.length && IDENTIFIER_PART.test(template[index]!)) index++;
+				const name = template.slice(start, index);
+				const isSpread = template.slice(0, start).trimEnd().endsWith('...');
+				const isProperty = previous === '.' && !isSpread;
+				OBJECT_KEY_END.lastIndex = index;
+				const isObjectKey = (previous === '{' || previous === ',') && OBJECT_KEY_END.test(template);
+				if (!isProperty && !isObjectKey && !KEYWORDS.has(name)) scan.references.push({name, start, end: index});
+				previous = 'a';
+			} else {
+				if (!/\s/.test(char)) previous = char;
+				index++;
+			}
+		}
+	}
+
+	scanText(false);
+
+	return scan;
+}
+
+/**
+ * Returns index after the end of a quoted string starting at `start`.
+ */
+function skipString(template: string, start: number) {
+	const quote = template[start];
+	let index = start + 1;
+
+	while (index < template.length) {
+		const char = template[index]!;
+		if (char === '\\') index += 2;
+		else if (char === quote) return index + 1;
+		else index++;
+	}
+
+	return index;
+}
@@ -0,0 +1,64 @@
+import * as Path from 'path';
+
+/**
+ * Multi-part extensions recognized by default.
+ */
+export const DEFAULT_COMPOUND_EXTENSIONS = [
+	'tar.gz',
+	'tar.bz2',
+	'tar.xz',
+	'tar.zst',
+	'tar.lz',
+	'tar.lz4',
+	'tar.lzma',
+	'tar.br',
+	'tar.Z',
+	'd.ts',
+	'd.mts',
+	'd.cts',
+	'min.js',
+	'min.css',
+	'js.map',
+	'css.map',
+];
+
+/**
+ * Compound extensions to use for a save. Output extension with multiple parts
+ * is always one of them, so that it's replaced and incremented around as
+ * a whole.
+ */
+export function resolveCompoundExtensions(
+	compoundExtensions: string[] = DEFAULT_COMPOUND_EXTENSIONS,
+	outputExtension?: string | null
+) {
+	return outputExtension?.includes('.') ? [...compoundExtensions, outputExtension] : compoundExtensions;
+}
+
+/**
+ * Extension of the path with the leading dot, same as `Path.extname()`, except
+ * that it recognizes compound extensions, such as `.tar.gz`. Longest matching
+ * one wins, letter case is ignored, and there has to be a name before it.
+ */
+export function getExtname(path: string, compoundExtensions: string[] = DEFAULT_COMPOUND_EXTENSIONS) {
+	const basename = Path.basename(path);
+	const lowerBasename = basename.toLowerCase();
+	let extname = '';
+
+	for (const extension of compoundExtensions) {
+		const suffix = `.${extension.replace(/^\./, '')}`.toLowerCase();
+		if (suffix.length > extname.length && suffix.length < basename.length && lowerBasename.endsWith(suffix)) {
+			extname = basename.slice(-suffix.length);
+		}
+	}
+
+	return extname || Path.extname(basename);
+}
+
+/**
+ * Splits path's basename into filename and compound aware extension.
+ */
+export function splitExtension(path: string, compoundExtensions?: string[]) {
+	const basename = Path.basename(path);
+	const extname = getExtname(basename, compoundExtensions);
+	return {filename: basename.slice(0, basename.length - extname.length), extname};
+}
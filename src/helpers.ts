@@ -0,0 +1,142 @@
+import * as Path from 'path';
+import {createHash} from 'crypto';
+import {TemplateError} from 'expand-template-literal';
+import {sanitizeSegment} from './sanitize';
+import {MAX_STRING_LENGTH} from './safeTemplate';
+
+/**
+ * Characters that don't decompose into ASCII letters with diacritics.
+ */
+const TRANSLITERATIONS: Record<string, string> = {
+	ß: 'ss',
+	æ: 'ae',
+	Æ: 'AE',
+	œ: 'oe',
+	Œ: 'OE',
+	ø: 'o',
+	Ø: 'O',
+	đ: 'd',
+	Đ: 'D',
+	ð: 'd',
+	Ð: 'D',
+	ł: 'l',
+	Ł: 'L',
+	þ: 'th',
+	Þ: 'TH',
+	ı: 'i',
+	'‘': "'",
+	'’': "'",
+	'“': '"',
+	'”': '"',
+	'–': '-',
+	'—': '-',
+	'…': '...',
+};
+
+/**
+ * Converts string to ASCII by removing diacritics, and dropping characters
+ * that have no ASCII alternative.
+ */
+export function transliterate(value: unknown) {
+	return `${value}`
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.replace(/[^\x00-\x7f]/g, (char) => TRANSLITERATIONS[char] ?? '');
+}
+
+/**
+ * Turns string into lowercase ASCII words separated by `separator`.
+ */
+export function slug(value: unknown, separator = '-') {
+	return transliterate(value)
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean)
+		.join(separator);
+}
+
+/**
+ * Helpers produce strings from their arguments, so they're limited the same
+ * as strings in safe templates, before they get to allocate them.
+ */
+function checkLength(length: number) {
+	if (length > MAX_STRING_LENGTH) throw new TemplateError(`String is too long, max length is ${MAX_STRING_LENGTH}.`);
+}
+
+export function pad(value: unknown, width: number, fill = '0') {
+	checkLength(width);
+	return `${value}`.padStart(width, fill);
+}
+
+/**
+ * Truncates string to max `length` characters, including `ellipsis`.
+ */
+export function truncate(value: unknown, length: number, ellipsis = '') {
+	const chars = [...`${value}`];
+	if (chars.length <= length) return chars.join('');
+	const result = chars.slice(0, Math.max(0, length - ellipsis.length)).join('') + ellipsis;
+	checkLength(result.length);
+	return result;
+}
+
+export function replace(value: unknown, search: string, replacement = '') {
+	const string = `${value}`;
+	if (typeof search === 'string' && typeof replacement === 'string') {
+		const count = search ? string.split(search).length - 1 : string.length + 1;
+		checkLength(string.length + count * (replacement.length - search.length));
+	}
+	const result = string.replaceAll(search, replacement);
+	checkLength(result.length);
+	return result;
+}
+
+export const lower = (value: unknown) => `${value}`.toLowerCase();
+
+export const upper = (value: unknown) => `${value}`.toUpperCase();
+
+/**
+ * Capitalizes first letter of every word.
+ */
+export const title = (value: unknown) =>
+	`${value}`.toLowerCase().replace(/(^|[\s_-])(\p{L})/gu, (_, start, letter) => `${start}${letter.toUpperCase()}`);
+
+/**
+ * Makes string safe to be used as a file or directory name on all platforms.
+ */
+export const sanitize = (value: unknown, replacement = '_') =>
+	sanitizeSegment(`${value}`, {profile: 'portable', replacement});
+
+/**
+ * Short deterministic ID of a string.
+ */
+export const hash = (value: unknown, length = 8) =>
+	createHash('sha256').update(`${value}`).digest('hex').slice(0, length);
+
+/**
+ * Makes helpers available in templates. Path helpers work with the directory
+ * of the input file.
+ */
+export function makeHelpers(inputPath: string) {
+	const dirname = Path.dirname(inputPath);
+
+	return {
+		slug,
+		pad,
+		truncate,
+		replace,
+		lower,
+		upper,
+		title,
+		transliterate,
+		sanitize,
+		hash,
+		// Name of the nth ancestor directory, `parent(1)` is the input's directory
+		parent: (level = 1) => {
+			let path = dirname;
+			for (let i = 1; i < level; i++) path = Path.dirname(path);
+			return Path.basename(path);
+		},
+		// Path of the input's directory relative to `from`
+		relative: (from: string) => Path.relative(Path.resolve(dirname, from), dirname),
+	};
+}
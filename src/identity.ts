@@ -0,0 +1,198 @@
+import * as Path from 'path';
+import {promises as FSP, BigIntStats} from 'fs';
+import {IS_CASE_INSENSITIVE_PLATFORM, IS_NORMALIZATION_INSENSITIVE_PLATFORM} from './utils';
+
+/**
+ * Case sensitivity of directories that have been probed.
+ */
+const caseSensitivities = new Map<string, Promise<boolean>>();
+
+// Inode number of filesystems that don't have them, like FAT on Windows
+const NO_INODE = BigInt(0);
+
+/**
+ * Checks wether both paths point to the same file.
+ *
+ * Existing files are compared by device and inode, so symlinks, hard links,
+ * case-insensitive filesystems, and different Unicode forms of the same name
+ * are all recognized. Paths that don't exist are compared by the real path of
+ * their closest existing directory, and names of the rest, matched the way
+ * that directory matches them.
+ */
+export async function isSameFile(pathA: string, pathB: string) {
+	pathA = Path.resolve(pathA);
+	pathB = Path.resolve(pathB);
+	if (pathA === pathB) return true;
+
+	const [statA, statB] = await Promise.all([statOrNull(pathA), statOrNull(pathB)]);
+
+	if (statA && statB && statA.ino !== NO_INODE) return statA.dev === statB.dev && statA.ino === statB.ino;
+
+	// Path that doesn't exist can't be the same file as the one that does
+	if (!statA !== !statB) return false;
+
+	const [resolvedA, resolvedB] = await Promise.all([resolveClosestExisting(pathA), resolveClosestExisting(pathB)]);
+	if (resolvedA.directory !== resolvedB.directory || resolvedA.names.length !== resolvedB.names.length) return false;
+
+	const isCaseSensitive = await isCaseSensitiveDirectory(resolvedA.directory);
+	return resolvedA.names.every(
+		(name, index) => toNameKey(name, isCaseSensitive) === toNameKey(resolvedB.names[index]!, isCaseSensitive)
+	);
+}
+
+/**
+ * Makes a check of wether a path points to the same file as one of `paths`.
+ *
+ * Identities of `paths` are resolved once, so that checked paths only have to
+ * be queried when they could match: when one of `paths` has hard links, or
+ * when they have the same name as one of `paths` in the same real directory.
+ * Everything else is ruled out without touching the file itself.
+ */
+export async function makeSameFileMatcher(paths: string[]) {
+	paths = paths.map((path) => Path.resolve(path));
+	const identities: {directory: string; names: string[]; isCaseSensitive: boolean}[] = [];
+	const directories = new Map<string, Promise<{directory: string; names: string[]}>>();
+	let hasHardLinks = false;
+
+	const resolveCached = async (path: string) => {
+		const dirname = Path.dirname(path);
+		let resolving = directories.get(dirname);
+		if (!resolving) directories.set(dirname, (resolving = resolveDirectory(dirname)));
+		const {directory, names} = await resolving;
+		return {directory, names: [...names, Path.basename(path)]};
+	};
+
+	for (const path of paths) {
+		const stat = await statOrNull(path);
+		if (stat && !stat.isDirectory() && stat.nlink > BigInt(1)) hasHardLinks = true;
+		// Symlinked files are also matched by the name of their target
+		const aliases = stat ? [path, await FSP.realpath(path)] : [path];
+		for (const alias of aliases) {
+			const {directory, names} = await resolveCached(alias);
+			identities.push({directory, names, isCaseSensitive: await isCaseSensitiveDirectory(directory)});
+		}
+	}
+
+	return async (path: string) => {
+		path = Path.resolve(path);
+
+		if (!hasHardLinks) {
+			const {directory, names} = await resolveCached(path);
+			const couldMatch = identities.some(
+				(identity) =>
+					identity.directory === directory &&
+					identity.names.length === names.length &&
+					identity.names.every(
+						(name, index) =>
+							toNameKey(name, identity.isCaseSensitive) ===
+							toNameKey(names[index]!, identity.isCaseSensitive)
+					)
+			);
+			if (!couldMatch) return false;
+		}
+
+		for (const otherPath of paths) {
+			if (await isSameFile(path, otherPath)) return true;
+		}
+		return false;
+	};
+}
+
+/**
+ * Key of a name in a directory, same for all names that point to the same
+ * directory entry.
+ */
+export function toNameKey(name: string, isCaseSensitive: boolean) {
+	if (IS_NORMALIZATION_INSENSITIVE_PLATFORM) name = name.normalize('NFC');
+	return isCaseSensitive ? name : name.toLowerCase();
+}
+
+/**
+ * Detects wether names in a directory are case sensitive, by looking up one
+ * of its entries with swapped letter case. Directories without such entries,
+ * including ones that don't exist yet, inherit case sensitivity of their
+ * parent. When there is nothing to probe, platform default is assumed.
+ */
+export function isCaseSensitiveDirectory(directory: string): Promise<boolean> {
+	directory = Path.resolve(directory);
+	let result = caseSensitivities.get(directory);
+
+	if (!result) {
+		result = probeCaseSensitivity(directory);
+		caseSensitivities.set(directory, result);
+	}
+
+	return result;
+}
+
+async function probeCaseSensitivity(directory: string): Promise<boolean> {
+	const parent = Path.dirname(directory);
+	const inherit = () => (parent === directory ? !IS_CASE_INSENSITIVE_PLATFORM : isCaseSensitiveDirectory(parent));
+	let names: string[];
+
+	try {
+		names = await FSP.readdir(directory);
+	} catch (error) {
+		if ((error as any)?.code === 'ENOENT' || (error as any)?.code === 'ENOTDIR') return inherit();
+		return !IS_CASE_INSENSITIVE_PLATFORM;
+	}
+
+	const name = names.find((name) => swapCase(name) !== name);
+	if (name == null) return inherit();
+
+	const [stat, swappedStat] = await Promise.all([
+		lstatOrNull(Path.join(directory, name)),
+		lstatOrNull(Path.join(directory, swapCase(name))),
+	]);
+
+	// Entry was deleted in the meantime
+	if (!stat) return inherit();
+	if (!swappedStat) return true;
+	return stat.ino !== NO_INODE && (stat.dev !== swappedStat.dev || stat.ino !== swappedStat.ino);
+}
+
+/**
+ * Splits path into real path of its closest existing directory, and names of
+ * the rest of the path.
+ */
+async function resolveClosestExisting(path: string) {
+	const {directory, names} = await resolveDirectory(Path.dirname(path));
+	return {directory, names: [...names, Path.basename(path)]};
+}
+
+/**
+ * Same as `resolveClosestExisting()`, but the directory itself is resolved
+ * first.
+ */
+async function resolveDirectory(path: string) {
+	const names: string[] = [];
+	let directory = path;
+
+	while (true) {
+		try {
+			return {directory: await FSP.realpath(directory), names};
+		} catch (error) {
+			const parent = Path.dirname(directory);
+			if ((error as any)?.code !== 'ENOENT' || parent === directory) return {directory, names};
+			names.unshift(Path.basename(directory));
+			directory = parent;
+		}
+	}
+}
+
+const swapCase = (value: string) =>
+	[...value].map((char) => (char === char.toUpperCase() ? char.toLowerCase() : char.toUpperCase())).join('');
+
+const statOrNull = (path: string) => orNullWhenMissing(FSP.stat(path, {bigint: true}));
+
+const lstatOrNull = (path: string) => orNullWhenMissing(FSP.lstat(path, {bigint: true}));
+
+async function orNullWhenMissing(promise: Promise<BigIntStats>) {
+	try {
+		return await promise;
+	} catch (error) {
+		const code = (error as any)?.code;
+		if (code === 'ENOENT' || code === 'ENOTDIR') return null;
+		throw error;
+	}
+}
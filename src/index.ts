@@ -1,11 +1,75 @@
 import * as Path from 'path';
 import {promises as FSP} from 'fs';
-import {platformPaths} from 'platform-paths';
-import {unusedFilename, makeSeparatorIncrementer, Incrementer} from './unusedFilename';
-import {pathIsFree, formatDestinationSelection, expandTemplate, isSamePath} from './utils';
-import {checksumFile} from '@tomasklaen/checksum';
+import {
+	unusedFilename,
+	makeSeparatorIncrementer,
+	makeParenthesesIncrementer,
+	makeTemplateIncrementer,
+	updateDirectoryListing,
+	Incrementer,
+	Decider,
+} from './unusedFilename';
+import {
+	pathIsFree,
+	formatDestinationSelection,
+	expandTemplate,
+	isSamePath,
+	isSameDevice,
+	toPathKey,
+	getCommonDirname,
+	makePathVariables,
+	findClosestExisting,
+	uid,
+} from './utils';
+import {stagePath, discardStaged, rollbackStaged, StagedPath} from './staging';
+import {trash, resolveTrash, TrashLocation, IS_TRASH_SUPPORTED} from './trash';
+import {sanitizePath, sanitizeValue, SanitizeProfile} from './sanitize';
+import {reservePath, releasePath, createPlaceholder} from './reservations';
+import {isSameFile, makeSameFileMatcher} from './identity';
+import {moveTmpPath, mergeTmpPath} from './move';
+import {readMetadata, applyMetadata} from './metadata';
+import {resolveCompoundExtensions} from './extensions';
+import {findSidecars, placeSidecars, getSidecarPaths, transferSidecars, Sidecar} from './sidecars';
+import {appendJournal, PROCESS_BATCH_ID, JournalBackup} from './journal';
+import {SaveAsPathProgress, ChecksumDetails} from './progress';
+import {
+	resolveConflictStrategy,
+	getConflictStrategy,
+	conflictStrategies,
+	directoryConflictPolicies,
+	ConflictError,
+	ConflictStrategy,
+	ConflictResolver,
+	DirectoryConflictPolicy,
+} from './conflict';
+import {
+	makeVariableLoaders,
+	makeVariableStubs,
+	loadVariables,
+	loadExtraVariables,
+	stubExtraVariables,
+	makeUniversalStub,
+	PLATFORM_PATH_NAMES,
+} from './variables';
+import {scanTemplate, getTemplateDependencies} from './dependencies';
+import {withSequences, SequenceFunction} from './sequences';
+import {checkSafeTemplateSyntax, SafeTemplateError} from './safeTemplate';
+import {findSyntaxProblems, findUnknownVariables, lintTemplate, TemplateProblem, SaveAsPathAnalysis} from './analyze';
 
 export {TemplateError} from 'expand-template-literal';
+export {TrashError} from './trash';
+export {SanitizeProfile} from './sanitize';
+export {ConflictError, ConflictStrategy, ConflictAction, ConflictResolver, DirectoryConflictPolicy} from './conflict';
+export {getTemplateDependencies} from './dependencies';
+export {lazyVariable, LazyVariable} from './variables';
+export {SafeTemplateError} from './safeTemplate';
+export {InsufficientSpaceError} from './move';
+export {DEFAULT_COMPOUND_EXTENSIONS} from './extensions';
+export {Sidecar} from './sidecars';
+export {undoJournal, pruneJournal, JournalEntry, JournalBackup, JournalOptions, UndoJournalResult} from './journal';
+export {SaveAsPathProgress, ChecksumDetails} from './progress';
+export {resetSequence, SequenceOptions, ResetSequenceOptions, DEFAULT_SEQUENCE_STORE} from './sequences';
+export {TemplateProblem, TemplateProblemCode, SaveAsPathAnalysis} from './analyze';
 
 /**
  * Types.
@@ -13,11 +77,96 @@ export {TemplateError} from 'expand-template-literal';
 
 export interface SaveAsPathOptions {
 	destination?: string;
-	deleteOriginal?: boolean;
+	deleteOriginal?: boolean | 'trash';
+	trashOriginal?: boolean;
 	overwriteDestination?: boolean;
-	incrementer?: 'space' | 'dash' | 'underscore' | 'parentheses';
+	conflict?: ConflictStrategy;
+	onConflict?: ConflictResolver;
+	directoryConflict?: DirectoryConflictPolicy;
+	incrementer?: IncrementerName;
+	incrementerTemplate?: string;
+	incrementStart?: number;
+	alwaysIncrement?: boolean;
+	sanitize?: 'off' | SanitizeProfile;
+	sanitizeReplacement?: string;
+	compoundExtensions?: string[];
+	sidecars?: string[];
+	journal?: string;
+	batchId?: string;
+	resolveFrom?: 'first' | 'common';
+	safe?: boolean;
+	safeTimeLimit?: number;
+	sequenceStore?: string;
+	verifyCopy?: boolean;
+	preserveMetadata?: boolean;
 	extraVariables?: Record<string, any>;
-	onOutputPath?: (outputPath: string) => void;
+	signal?: AbortSignal;
+	onOutputPath?: (outputPath: string, details: OutputPathDetails) => void;
+	onProgress?: (progress: SaveAsPathProgress) => void;
+	onChecksum?: (checksum: string, details: ChecksumDetails) => void;
+	onCollision?: (candidatePath: string, reason: CandidateReason) => void;
+	onDeleteOriginal?: (path: string, method: 'delete' | 'trash') => void;
+	onComplete?: (result: SaveAsPathResult) => void;
+}
+
+export type IncrementerName = 'space' | 'dash' | 'underscore' | 'parentheses' | 'template';
+
+export interface OutputPathDetails {
+	skipped: boolean;
+	expandedPath: string;
+	sanitizedPath: string;
+}
+
+export interface SaveAsPathResult extends OutputPathDetails {
+	outputPath: string;
+	// Originals and their sidecars that have been deleted, or moved to trash
+	deleted: string[];
+	// Sidecars next to the output
+	sidecars: string[];
+}
+
+/**
+ * Why was a path candidate accepted or rejected:
+ * - `free` - nothing exists on the path
+ * - `replaces-original` - path points to one of the inputs, which are being deleted
+ * - `keeps-original` - path points to one of the inputs, which shouldn't be deleted
+ * - `overwrites` - path exists, and can be overwritten
+ * - `merges` - path is an existing directory, and output directory will be merged into it
+ * - `exists` - path, or one of its sidecar paths, exists, and shouldn't be
+ *   overwritten, or can't be, as output is a file and path a directory, or
+ *   the other way around
+ * - `skips` - path exists, and should be kept instead of saving the new file
+ * - `reserved` - path has been chosen by another save in progress
+ */
+export type CandidateReason =
+	| 'free'
+	| 'replaces-original'
+	| 'keeps-original'
+	| 'overwrites'
+	| 'merges'
+	| 'exists'
+	| 'skips'
+	| 'reserved';
+
+export interface SaveAsPathPlanCandidate {
+	path: string;
+	accepted: boolean;
+	reason: CandidateReason;
+}
+
+export interface SaveAsPathPlan {
+	template: string;
+	expandedPath: string;
+	sanitizedPath: string;
+	outputPath: string;
+	skipped: boolean;
+	candidates: SaveAsPathPlanCandidate[];
+	overwrites: string | null;
+	merges: string | null;
+	deletes: string[];
+	sidecars: Sidecar[];
+	deleteMethod: 'delete' | 'trash';
+	move: 'rename' | 'copy';
 }
 
 export interface Options {
@@ -25,27 +174,67 @@ export interface Options {
 	saving: {
 		destination: string;
 		deleteOriginal: boolean;
-		overwriteDestination: boolean;
-		incrementer: 'space' | 'dash' | 'underscore' | 'parentheses';
+		trashOriginal: boolean;
+		overwriteDestination: boolean; // deprecated, use `conflict`
+		conflict: ConflictStrategy;
+		directoryConflict?: DirectoryConflictPolicy;
+		incrementer: IncrementerName;
+		incrementerTemplate: string;
+		incrementStart: number;
+		alwaysIncrement: boolean;
+		sanitize: 'off' | SanitizeProfile;
+		sanitizeReplacement: string;
+		sidecars: string[];
+		preserveMetadata: boolean;
 	};
 }
 
 export interface MakeOptionSchemaOptions {
 	showChecksums?: boolean;
 	extraVariables?: Record<string, string>;
+	safe?: boolean;
+	directories?: boolean;
+}
+
+const incrementerMakers: Record<Exclude<IncrementerName, 'template'>, (start: number) => Incrementer> = {
+	space: (start) => makeSeparatorIncrementer(' ', {start}),
+	dash: (start) => makeSeparatorIncrementer('-', {start}),
+	underscore: (start) => makeSeparatorIncrementer('_', {start}),
+	parentheses: (start) => makeParenthesesIncrementer({start}),
+};
+
+function makeIncrementer({
+	incrementer = 'space',
+	incrementerTemplate = '${filename} ${n}',
+	incrementStart: start = 1,
+}: SaveAsPathOptions) {
+	if (incrementer === 'template') return makeTemplateIncrementer(incrementerTemplate, {start});
+	const maker = incrementerMakers[incrementer];
+	if (!maker) throw new Error(`Unknown incrementer "${incrementer}".`);
+	return maker(start);
 }
 
-const incrementers: Record<string, Incrementer | undefined> = {
-	space: makeSeparatorIncrementer(' '),
-	dash: makeSeparatorIncrementer('-'),
-	underscore: makeSeparatorIncrementer('_'),
-	parentheses: undefined,
+const isIncrementerHidden = ({saving}: Options) => {
+	const conflict = getConflictStrategy(saving);
+	return (
+		conflict === 'skip' ||
+		conflict === 'fail' ||
+		(saving.deleteOriginal && conflict === 'overwrite' && !saving.alwaysIncrement)
+	);
 };
 
 /**
  * Drovp option schema maker.
  */
-export function makeOptionSchema({extraVariables = {}}: MakeOptionSchemaOptions = {}): any {
+export function makeOptionSchema({
+	extraVariables = {},
+	safe = false,
+	directories = false,
+}: MakeOptionSchemaOptions = {}): any {
+	const templateDescription = safe
+		? `Template is a restricted template literal. Embedded expressions can use variables, property access, object and array literals, string, number, array, and date methods, arithmetic, comparisons, logical operators, ternaries, and arrow functions passed to array methods.`
+		: `Template is a JavaScript template literal allowing embedded expressions.`;
+
 	return {
 		name: 'saving',
 		type: 'namespace',
@@ -59,7 +248,7 @@ export function makeOptionSchema({extraVariables = {}}: MakeOptionSchemaOptions
 				// Appends old filename template to a newly selected directory
 				formatSelection: formatDestinationSelection,
 				description: `
-				<p>Where to save the file. Relative path starts at the input file's directory. Template is a JavaScript template literal allowing embedded expressions.</p>
+				<p>Where to save the file. Relative path starts at the input file's directory. ${templateDescription}</p>
 				<p><b>Available variables:</b></p>
 				<p><em>Examples assume an input path <code>/foo/bar/baz.png</code>, and an output type <code>jpg</code>.</em></p>
 				<p>
@@ -71,6 +260,22 @@ export function makeOptionSchema({extraVariables = {}}: MakeOptionSchemaOptions
 					<b><code>\${dirbasename}</code></b> - name of a parent directory → <code>bar</code><br>
 					<b><code>\${crc32/md5/sha1/sha256/sha512}</code></b> - <b>output</b> file checksums<br>
 					<b><code>\${CRC32/MD5/SHA1/SHA256/SHA512}</code></b> - uppercase <b>output</b> file checksums<br>
+					<b><code>\${size}</code></b> - <b>output</b> file size in bytes → <code>1536</code><br>
+					<b><code>\${sizeHuman}</code></b> - human readable <b>output</b> file size → <code>1.5KB</code><br>
+					<b><code>\${sizeRatio}</code></b> - <b>output</b> to <b>original</b> file size ratio → <code>0.5</code><br>
+					<b><code>\${mode}</code></b> - <b>output</b> file permissions in octal → <code>644</code><br>
+					<b><code>\${srcSize}</code></b> - <b>original</b> file size in bytes → <code>3072</code><br>
+					<b><code>\${srcMtime/srcBirthtime/srcCtime}</code></b> - <b>original</b> file modified/created/changed time as <a href="https://day.js.org/docs/en/display/format">day.js</a> object. Example: <code>\${srcMtime.format('YYYY-MM-DD')}</code><br>
+					<b><code>\${width/height}</code></b> - <b>output</b> image dimensions in pixels → <code>1920</code><br>
+					<b><code>\${orientation}</code></b> - <b>output</b> image EXIF orientation → <code>1</code><br>
+					<b><code>\${exif}</code></b> - <b>output</b> image EXIF data: <code>date</code> (day.js object of <code>DateTimeOriginal</code>), <code>make</code>, <code>model</code>, <code>lens</code>. Example: <code>\${exif.date.format('YYYY/MM')}</code><br>
+					<b><code>\${srcWidth/srcHeight/srcOrientation/srcExif}</code></b> - same as above, but of the <b>original</b> file<br>
+					<em>When multiple files are merged into one output:</em><br>
+					<b><code>\${count}</code></b> - number of input files → <code>3</code><br>
+					<b><code>\${inputs}</code></b> - array of input paths parsed into <code>{path, root, dir, base, name, ext}</code> objects. Example: <code>\${inputs.map((input) => input.name).join('+')}</code><br>
+					<b><code>\${commonDirname}</code></b> - deepest directory containing all inputs → <code>/foo</code><br>
+					<b><code>\${commonPrefix}</code></b> - common start of all input filenames → <code>clip</code><br>
+					<b><code>\${firstFilename/lastFilename}</code></b> - filename of the first/last input → <code>clip-01</code><br>
 					${Object.entries(extraVariables)
 						.map(([name, description]) => `<b><code>\${${name}}</code></b> - ${description}`)
 						.join('<br>')}
@@ -83,6 +288,20 @@ export function makeOptionSchema({extraVariables = {}}: MakeOptionSchemaOptions
 					Utils:<br>
 					<b><code>Time()</code></b> - <a href="https://day.js.org/docs/en/display/format">day.js</a> util to help with time. Example: <code>\${Time().format('YY')}</code><br>
 					<b><code>uid(size? = 10)</code></b> - Unique string generator. Size is optional, default is 10. This is a faster alternative to generating file checksums when uniqueness is all that is desired. Example: <code>\${uid()}</code><br>
+					<b><code>seq(name? = 'default', {pad?, start? = 1, scope? = 'global'})</code></b> - Persistent counter that increments with every saved file, and survives restarts. <code>scope: 'directory'</code> counts separately per directory. Example: <code>scan_\${seq('scan', {pad: 4})}</code> → <code>scan_0001</code><br>
+				</p>
+				<p>
+					Helpers:<br>
+					<b><code>slug(str, separator? = '-')</code></b> - lowercase ASCII words joined with separator → <code>slug('Café Noir!')</code> → <code>cafe-noir</code><br>
+					<b><code>pad(n, width, fill? = '0')</code></b> - pads start of a value → <code>pad(7, 3)</code> → <code>007</code><br>
+					<b><code>truncate(str, length, ellipsis? = '')</code></b> - limits string length → <code>truncate(filename, 20)</code><br>
+					<b><code>replace(str, search, replacement? = '')</code></b> - replaces all occurrences → <code>replace(filename, ' ', '_')</code><br>
+					<b><code>lower(str)</code></b>, <b><code>upper(str)</code></b>, <b><code>title(str)</code></b> - changes letter case → <code>title('hello world')</code> → <code>Hello World</code><br>
+					<b><code>transliterate(str)</code></b> - converts to ASCII → <code>transliterate('Žluťoučký')</code> → <code>Zlutoucky</code><br>
+					<b><code>sanitize(str, replacement? = '_')</code></b> - makes value safe to use as a file name on all platforms<br>
+					<b><code>parent(n? = 1)</code></b> - name of the nth ancestor directory → <code>parent(2)</code> → <code>foo</code><br>
+					<b><code>relative(from)</code></b> - input directory path relative to <code>from</code> → <code>relative('/foo')</code> → <code>bar</code><br>
+					<b><code>hash(str, length? = 8)</code></b> - short deterministic ID of a string → <code>hash(dirname)</code> → <code>a05d96ad</code><br>
 				</p>
 				<p>
 					<b>NOTE</b>: Do NOT use backslashes (<code>\\</code>) in paths. It produces cross-platform incompatible paths (can't share profile import codes) and leads to escaping issues.
@@ -96,16 +315,48 @@ export function makeOptionSchema({extraVariables = {}}: MakeOptionSchemaOptions
 				title: `Delete original`,
 				description: `Ensures the original file is deleted.`,
 			},
+			{
+				name: 'trashOriginal',
+				type: 'boolean',
+				default: false,
+				title: `Move original to trash`,
+				description: `Instead of deleting it permanently, original file is moved to system trash, where it can be recovered from.`,
+				isHidden: (_: boolean, {saving}: Options) => !saving.deleteOriginal || !IS_TRASH_SUPPORTED,
+			},
 			{
 				name: 'overwriteDestination',
 				type: 'boolean',
 				default: false,
-				title: `Overwrite destination`,
-				description: (value: boolean, {saving}: Options) =>
-					saving.deleteOriginal
-						? `Overwrite destination, even if it's a different file than original.`
-						: `Overwrite destination, but only if it's a different file than original.`,
+				title: `Overwrite destination (deprecated)`,
+				description: `Replaced by <b>When destination exists</b>. While enabled, <b>Increment filename</b> there overwrites instead. Disable to use the other strategies.`,
+				// Only shown to profiles that still have it enabled, so they can turn it off
+				isHidden: (value: boolean) => !value,
 			},
+			{
+				name: 'conflict',
+				type: 'select',
+				options: conflictStrategies,
+				default: 'increment',
+				title: `When destination exists`,
+				description: (value: ConflictStrategy, {saving}: Options) =>
+					value === 'skip' || value === 'fail'
+						? `What to do when destination already exists.`
+						: saving.deleteOriginal
+						? `What to do when destination already exists, and it's a different file than original.`
+						: `What to do when destination already exists. Original is never overwritten, filename is incremented instead.`,
+			},
+			...(directories
+				? [
+						{
+							name: 'directoryConflict',
+							type: 'select',
+							options: directoryConflictPolicies,
+							default: 'conflict',
+							title: `When destination folder exists`,
+							description: `What to do when output is a folder, and destination is an existing folder. Merging moves contents into the existing folder, replacing files that are in both.`,
+						},
+				  ]
+				: []),
 			{
 				name: 'incrementer',
 				type: 'select',
@@ -114,11 +365,86 @@ export function makeOptionSchema({extraVariables = {}}: MakeOptionSchemaOptions
 					dash: 'Dash: file-1',
 					underscore: 'Underscore: file_1',
 					parentheses: 'Parentheses: file (1)',
+					template: 'Custom template',
 				},
 				default: 'space',
 				title: `Increment style`,
 				description: `What filename incrementation style to use when destination shouldn't be overwritten.`,
-				isHidden: (_: string, {saving}: Options) => saving.deleteOriginal && saving.overwriteDestination,
+				isHidden: (_: string, options: Options) => isIncrementerHidden(options),
+			},
+			{
+				name: 'incrementerTemplate',
+				type: 'string',
+				default: '${filename} ${n}',
+				title: `Increment template`,
+				description: `
+				<p>Incremented filename template, without the extension.</p>
+				<p>
+					<b><code>\${filename}</code></b> - file name without the extension, required<br>
+					<b><code>\${n}</code></b> - index, example: <code>\${filename}.v\${n}</code> → <code>file.v1</code><br>
+					<b><code>\${pad(n, width)}</code></b> - index padded with zeros, example: <code>\${filename}_\${pad(n, 3)}</code> → <code>file_001</code>
+				</p>
+				<p>Only one of <code>\${n}</code> or <code>\${pad(n, width)}</code> can be used.</p>
+				`,
+				isHidden: (_: string, options: Options) =>
+					options.saving.incrementer !== 'template' || isIncrementerHidden(options),
+			},
+			{
+				name: 'incrementStart',
+				type: 'number',
+				min: 0,
+				step: 1,
+				default: 1,
+				title: `Increment start`,
+				description: `Index of the first incremented filename.`,
+				isHidden: (_: number, options: Options) => isIncrementerHidden(options),
+			},
+			{
+				name: 'alwaysIncrement',
+				type: 'boolean',
+				default: false,
+				title: `Always increment`,
+				description: `Number even the first file, so it's <code>file 1.jpg</code> instead of <code>file.jpg</code>. Filenames that already have an index are kept as is.`,
+				isHidden: (_: boolean, {saving}: Options) => {
+					const conflict = getConflictStrategy(saving);
+					return conflict === 'skip' || conflict === 'fail';
+				},
+			},
+			{
+				name: 'sanitize',
+				type: 'select',
+				options: {
+					off: 'Off',
+					posix: 'POSIX (Linux, macOS)',
+					windows: 'Windows',
+					portable: 'Portable (all platforms)',
+				},
+				default: 'off',
+				title: `Sanitize filenames`,
+				description: `Replace characters and names the target filesystem doesn't allow, such as control characters, <code>:</code>, <code>?</code>, trailing dots and spaces, or Windows reserved names like <code>CON</code>, and truncate names longer than 255 bytes while keeping the extension.`,
+			},
+			{
+				name: 'sanitizeReplacement',
+				type: 'string',
+				default: '_',
+				title: `Sanitize replacement`,
+				description: `What to replace invalid characters with.`,
+				isHidden: (_: string, {saving}: Options) => !saving.sanitize || saving.sanitize === 'off',
+			},
+			{
+				name: 'sidecars',
+				type: 'list',
+				schema: {type: 'string'},
+				default: [],
+				title: `Sidecar files`,
+				description: `Extensions (<code>xmp</code>), or glob patterns (<code>*.srt</code>) of files next to the original that belong to it, like <code>photo.xmp</code> or <code>video.en.srt</code>. They are copied next to the output, and renamed to follow its filename. When original is deleted, they are moved instead.`,
+			},
+			{
+				name: 'preserveMetadata',
+				type: 'boolean',
+				default: false,
+				title: `Preserve metadata`,
+				description: `Copy modification time, permissions, owner, and extended attributes of the original file onto the output.`,
 			},
 		],
 	};
@@ -135,81 +461,609 @@ export async function saveAsPath(
 	outputExtension: string | null | undefined,
 	options: SaveAsPathOptions = {}
 ) {
-	const inputPaths = Array.isArray(inputPathOrPaths) ? inputPathOrPaths : [inputPathOrPaths];
-	const firstInputPath = inputPaths[0];
+	const inputPaths = normalizeInputPaths(inputPathOrPaths);
+	options.signal?.throwIfAborted();
+	await ensureTmpPath(tmpPath);
+
+	const {
+		outputPath,
+		expandedPath,
+		sanitizedPath,
+		skipped,
+		isReserved,
+		hasPlaceholder,
+		isMerging,
+		sidecars,
+		sidecarPlaceholders,
+		releaseSequences,
+	} = await resolveOutputPath(inputPaths, tmpPath, outputExtension, options, {
+		reserve: true,
+		onCandidate: ({path, accepted, reason}) => {
+			if (!accepted) options.onCollision?.(path, reason);
+		},
+	});
+	let isCommitted = false;
+	let areSidecarsTransferred = false;
+	let deleted: string[] = [];
+	let sidecarPaths: string[] = [];
+
+	try {
+		// Originals can't be put back once the output takes their place
+		const trashLocations =
+			!skipped && getDeleteMethod(options) === 'trash'
+				? await resolveTrashLocations([...inputPaths, ...sidecars.map(({path}) => path)])
+				: new Map<string, TrashLocation>();
+
+		// Notify that the final path has been determined
+		options.onOutputPath?.(outputPath, {skipped, expandedPath, sanitizedPath});
+		// Last chance to cancel without changing anything
+		options.signal?.throwIfAborted();
+
+		if (skipped) {
+			// Existing file is kept, new one discarded, and originals left alone
+			await FSP.rm(tmpPath, {recursive: true, force: true});
+		} else {
+			// Captured before originals might get deleted
+			const metadata = options.preserveMetadata ? await readMetadata(inputPaths[0]!) : null;
+			const {staged, created} = await commitOutput(inputPaths, tmpPath, outputPath, options, {
+				hasPlaceholder,
+				isMerging,
+			});
+			isCommitted = true;
+			const disposed = await disposeStaged(inputPaths, outputPath, staged, options, trashLocations);
+			const backups = disposed.backups;
+			deleted = disposed.deleted;
+
+			if (sidecars.length > 0) {
+				const method = options.deleteOriginal ? getDeleteMethod(options) : 'copy';
+				const transferred = await transferSidecars(sidecars, {
+					method,
+					placeholders: sidecarPlaceholders,
+					trashLocations,
+					keepBackups: options.journal != null,
+					onDelete: (path) => options.onDeleteOriginal?.(path, method === 'trash' ? 'trash' : 'delete'),
+				});
+				areSidecarsTransferred = true;
+				sidecarPaths = transferred.outputPaths;
+				deleted.push(...transferred.deleted);
+				created.push(...transferred.created);
+				backups.push(...transferred.backups);
+			}
+
+			if (metadata) await applyMetadata(outputPath, metadata);
+
+			if (options.journal != null) {
+				await appendJournal(options.journal, {
+					batchId: options.batchId ?? PROCESS_BATCH_ID,
+					time: new Date().toISOString(),
+					outputPath,
+					created,
+					backups,
+					deleteMethod: getDeleteMethod(options),
+				});
+			}
+		}
+	} finally {
+		if (hasPlaceholder && !isCommitted) await FSP.rm(outputPath, {recursive: true, force: true});
+		if (!areSidecarsTransferred) {
+			for (const path of sidecarPlaceholders) await FSP.rm(path, {force: true});
+		}
+		if (isReserved) {
+			releasePath(outputPath);
+			for (const path of getSidecarPaths(sidecars)) releasePath(path);
+		}
+		// Counters of saves that didn't put the output in place are given back, failing leaves a gap at worst
+		if (!isCommitted) await releaseSequences().catch(() => {});
+	}
+
+	options.onComplete?.({outputPath, skipped, expandedPath, sanitizedPath, deleted, sidecars: sidecarPaths});
+	return outputPath;
+}
+
+/**
+ * Moves temporary file to output path, or merges it into an existing output
+ * directory. Originals and files that are being overwritten are staged aside,
+ * and returned to be disposed of once the output is in place, along with
+ * paths that have been created.
+ */
+async function commitOutput(
+	inputPaths: string[],
+	tmpPath: string,
+	outputPath: string,
+	options: SaveAsPathOptions,
+	{hasPlaceholder, isMerging}: {hasPlaceholder: boolean; isMerging: boolean}
+) {
+	const {deleteOriginal = false} = options;
+
+	// Ensure destination directory exists
+	const outputDirname = Path.dirname(outputPath);
+	await FSP.mkdir(outputDirname, {recursive: true});
+
+	// Originals, as well as the file about to be overwritten, are only moved
+	// aside, and deleted after the output is in place. Any failure until then
+	// rolls everything back. Placeholder is left to be replaced atomically.
+	const staged: StagedPath[] = [];
+	try {
+		const pathsToStage = await uniqueFiles([
+			...(deleteOriginal ? inputPaths : []),
+			...(hasPlaceholder || isMerging ? [] : [outputPath]),
+		]);
+		for (const path of pathsToStage) {
+			const item = await stagePath(path);
+			if (item) staged.push(item);
+		}
+
+		const moveOptions = {...options, verify: options.verifyCopy};
+		if (isMerging) return {staged, created: await mergeTmpPath(tmpPath, outputPath, staged, moveOptions)};
+		await moveTmpPath(tmpPath, outputPath, moveOptions);
+	} catch (error) {
+		const failed = await rollbackStaged(staged);
+		if (failed.length > 0 && error instanceof Error) {
+			error.message += ` Failed to restore: ${failed
+				.map(({path, stagedPath}) => `"${path}" (staged at "${stagedPath}")`)
+				.join(', ')}.`;
+		}
+		throw error;
+	}
+
+	return {staged, created: [outputPath]};
+}
+
+/**
+ * Resolves trash locations of existing paths, so that trash is known to be
+ * usable before anything is changed.
+ */
+async function resolveTrashLocations(paths: string[]) {
+	const locations = new Map<string, TrashLocation>();
+	for (const path of paths) {
+		if (!(await pathIsFree(path))) locations.set(toPathKey(path), await resolveTrash(path));
+	}
+	return locations;
+}
+
+/**
+ * Deletes or trashes staged items. When saves are journaled, they are kept
+ * as backups instead.
+ *
+ * Originals that fail to be trashed are moved back, as the output is already
+ * in place. When the output took their path, they are moved next to it.
+ *
+ * Returns originals that have been disposed of, and backups.
+ */
+async function disposeStaged(
+	inputPaths: string[],
+	outputPath: string,
+	staged: StagedPath[],
+	options: SaveAsPathOptions,
+	trashLocations: Map<string, TrashLocation>
+) {
+	const deleted: string[] = [];
+	const backups: JournalBackup[] = [];
+	const method = getDeleteMethod(options);
+
+	for (const item of staged) {
+		const isOriginal = inputPaths.find((inputPath) => isSamePath(item.path, inputPath)) != null;
+		if (options.journal != null) {
+			backups.push({path: item.path, backupPath: item.stagedPath, kind: isOriginal ? 'original' : 'overwritten'});
+		} else if (isOriginal && method === 'trash') {
+			try {
+				await trash(item.stagedPath, {
+					originalPath: item.path,
+					location: trashLocations.get(toPathKey(item.path)),
+				});
+			} catch (error) {
+				const path = (await pathIsFree(item.path))
+					? item.path
+					: await unusedFilename(item.path, {incrementer: makeIncrementer(options)});
+				await FSP.rename(item.stagedPath, path);
+				await updateDirectoryListing(path, true);
+				continue;
+			}
+		} else {
+			await discardStaged(item);
+		}
+		if (isOriginal) {
+			deleted.push(item.path);
+			options.onDeleteOriginal?.(item.path, method);
+		}
+		// Paths that are still taken point to the output under a different
+		// name, or to merged items that replaced them
+		if (await pathIsFree(item.path)) await updateDirectoryListing(item.path, false);
+	}
+
+	await updateDirectoryListing(outputPath, true);
+
+	return {deleted, backups};
+}
+
+/**
+ * Plans what `saveAsPath()` would do with the same arguments, without
+ * touching the filesystem.
+ *
+ * Temporary file is only read, and only when template needs its checksums.
+ */
+export async function planSaveAsPath(
+	inputPathOrPaths: string | string[],
+	tmpPath: string,
+	outputExtension: string | null | undefined,
+	options: SaveAsPathOptions = {}
+): Promise<SaveAsPathPlan> {
+	const inputPaths = normalizeInputPaths(inputPathOrPaths);
+	await ensureTmpPath(tmpPath);
+
+	const {deleteOriginal = false} = options;
+	const candidates: SaveAsPathPlanCandidate[] = [];
+	const {template, expandedPath, sanitizedPath, outputPath, skipped, sidecars} = await resolveOutputPath(
+		inputPaths,
+		tmpPath,
+		outputExtension,
+		options,
+		{onCandidate: (candidate) => candidates.push(candidate)}
+	);
+	const acceptedCandidate = candidates[candidates.length - 1];
+	const deletes: string[] = [];
+
+	if (deleteOriginal && !skipped) {
+		for (const path of inputPaths) {
+			if (!(await pathIsFree(path))) deletes.push(path);
+		}
+		// Sidecars that are already in place are kept
+		for (const {path, outputPath} of sidecars) {
+			if (!(await isSameFile(path, outputPath))) deletes.push(path);
+		}
+	}
 
-	if (!firstInputPath) throw new Error(`SaveAsPath can't proceed, received empty inputPaths.`);
+	return {
+		template,
+		expandedPath,
+		sanitizedPath,
+		outputPath,
+		skipped,
+		candidates,
+		overwrites: acceptedCandidate?.reason === 'overwrites' ? outputPath : null,
+		merges: acceptedCandidate?.reason === 'merges' ? outputPath : null,
+		deletes,
+		sidecars,
+		deleteMethod: getDeleteMethod(options),
+		move: (await isSameDevice(tmpPath, Path.dirname(outputPath))) ? 'rename' : 'copy',
+	};
+}
+
+/**
+ * Removes paths that point to the same file as one of the previous paths.
+ * Has to be called while all paths still point where they did originally.
+ */
+async function uniqueFiles(paths: string[]) {
+	const unique: string[] = [];
+	for (const path of paths) {
+		if (!(await someAsync(unique, (uniquePath) => isSameFile(uniquePath, path)))) unique.push(path);
+	}
+	return unique;
+}
 
-	// Check tmpPath exists
+async function isDirectoryPath(path: string) {
+	try {
+		return (await FSP.stat(path)).isDirectory();
+	} catch (error) {
+		return false;
+	}
+}
+
+async function someAsync<T>(items: T[], predicate: (item: T) => Promise<boolean>) {
+	for (const item of items) {
+		if (await predicate(item)) return true;
+	}
+	return false;
+}
+
+function getDeleteMethod({deleteOriginal, trashOriginal}: SaveAsPathOptions) {
+	return deleteOriginal === 'trash' || (deleteOriginal && trashOriginal) ? 'trash' : 'delete';
+}
+
+function normalizeInputPaths(inputPathOrPaths: string | string[]) {
+	const inputPaths = Array.isArray(inputPathOrPaths) ? inputPathOrPaths : [inputPathOrPaths];
+	if (!inputPaths[0]) throw new Error(`SaveAsPath can't proceed, received empty inputPaths.`);
+	return inputPaths;
+}
+
+async function ensureTmpPath(tmpPath: string) {
 	try {
 		await FSP.access(tmpPath);
 	} catch (error) {
 		throw new Error(`Temporary path "${tmpPath}" doesn't exist, or is not accessible.`);
 	}
+}
+
+/**
+ * Directory relative templates, and `directory` scoped counters, resolve from.
+ */
+function getInputDirname(inputPaths: string[], {resolveFrom}: SaveAsPathOptions) {
+	return (resolveFrom === 'common' && getCommonDirname(inputPaths)) || Path.dirname(inputPaths[0]!);
+}
 
-	const {deleteOriginal = false, overwriteDestination = false, incrementer: incrementerName = 'space'} = options;
-	const incrementer = incrementers[incrementerName];
-	const inputDirname = Path.dirname(firstInputPath);
+// Variables with paths, sanitization leaves their values as they are
+const PATH_VARIABLE_NAMES: string[] = ['path', 'dirname', 'commonDirname', ...PLATFORM_PATH_NAMES];
+
+/**
+ * Expands the destination template, and finds the first path that satisfies
+ * the saving options. Every considered path is reported to `onCandidate`.
+ *
+ * With `reserve` enabled, chosen path is claimed, so that parallel saves can't
+ * choose it as well. Free paths are also claimed on the filesystem with an
+ * empty placeholder file. Reservation has to be released by the caller, and
+ * so do `seq()` values with `releaseSequences()` when the save fails.
+ */
+async function resolveOutputPath(
+	inputPaths: string[],
+	tmpPath: string,
+	outputExtension: string | null | undefined,
+	options: SaveAsPathOptions,
+	{onCandidate, reserve = false}: {onCandidate?: (candidate: SaveAsPathPlanCandidate) => void; reserve?: boolean} = {}
+) {
+	const firstInputPath = inputPaths[0]!;
+	const {deleteOriginal = false, alwaysIncrement = false} = options;
+	const conflict = getConflictStrategy(options);
+	const directoryConflict = options.directoryConflict || 'conflict';
+	const isDirectory = (await FSP.stat(tmpPath)).isDirectory();
+	const compoundExtensions = resolveCompoundExtensions(options.compoundExtensions, outputExtension);
+	const incrementer = makeIncrementer(options);
+	const inputDirname = getInputDirname(inputPaths, options);
 	const template = options.destination || '${basename}';
-	const extraVariables = options.extraVariables || {};
+	// Query platform paths, checksums, and file stats used in a template, unless extra variables provide them
+	const loaders = makeVariableLoaders({inputPath: firstInputPath, tmpPath, hooks: options});
+	for (const name of Object.keys(options.extraVariables || {})) delete loaders[name];
+	const extraVariables = {
+		...(await loadVariables(template, loaders)),
+		...(await loadExtraVariables(template, options.extraVariables)),
+	};
 
-	// Query needed platform paths
-	for (const name of Object.keys(platformPaths) as (keyof typeof platformPaths)[]) {
-		if (template.includes(name)) extraVariables[name] = await platformPaths[name]();
-	}
+	const sanitizeOptions =
+		options.sanitize && options.sanitize !== 'off'
+			? {profile: options.sanitize, replacement: options.sanitizeReplacement}
+			: null;
+	const variables = {
+		...makePathVariables(inputPaths, outputExtension, options.compoundExtensions),
+		...extraVariables,
+	};
+	const expandWith = (variables: Record<string, unknown>) =>
+		expandTemplate(inputPaths, outputExtension, {...options, destination: template, extraVariables: variables});
 
-	// Generate checksums used in a template
-	const lcTemplate = template.toLowerCase();
-	for (const name of ['crc32', 'md5', 'sha1', 'sha256', 'sha512']) {
-		if (lcTemplate.includes(name)) {
-			const checksum = await checksumFile(tmpPath, name);
-			extraVariables[name] = checksum;
-			extraVariables[name.toUpperCase()] = checksum.toUpperCase();
+	/**
+	 * With sanitization, template is expanded a second time with sanitized
+	 * values, and ids generated by `uid()` are replayed into it.
+	 */
+	const expand = (seq?: SequenceFunction) => {
+		const uids: string[] = [];
+		const rawVariables: Record<string, unknown> = {...variables, ...(seq && {seq})};
+		if (variables.uid === uid) rawVariables.uid = (size?: number) => uids[uids.push(uid(size)) - 1];
+		const raw = expandWith(rawVariables);
+		if (!sanitizeOptions) return {raw, sanitized: raw};
+
+		const sanitizedVariables: Record<string, unknown> = {...rawVariables};
+		for (const [name, value] of Object.entries(sanitizedVariables)) {
+			if (typeof value === 'string' && !PATH_VARIABLE_NAMES.includes(name)) {
+				sanitizedVariables[name] = sanitizeValue(value, sanitizeOptions);
+			}
 		}
+		if (variables.uid === uid) sanitizedVariables.uid = (size?: number) => uids.shift() ?? uid(size);
+
+		return {raw, sanitized: expandWith(sanitizedVariables)};
+	};
+	const isInput = await makeSameFileMatcher(inputPaths);
+	const foundSidecars =
+		options.sidecars && options.sidecars.length > 0
+			? await findSidecars(inputPaths, {patterns: options.sidecars, compoundExtensions})
+			: [];
+
+	// Counters are only issued to actual saves, which give them back when they fail
+	const {result: expanded, release: releaseSequences} = getTemplateDependencies(template).includes('seq')
+		? await withSequences({store: options.sequenceStore, directory: inputDirname, dryRun: !reserve}, expand)
+		: {result: expand(), release: async () => {}};
+	const expandedPath = Path.resolve(inputDirname, expanded.raw);
+	let sanitizedPath = expandedPath;
+
+	if (sanitizeOptions) {
+		// Directories that come from inputs, platform folders, or already exist, are not ours to rename
+		const path = Path.resolve(inputDirname, expanded.sanitized);
+		const directory = [
+			inputDirname,
+			variables.dirname,
+			variables.commonDirname,
+			...PLATFORM_PATH_NAMES.map((name) => variables[name]),
+		].reduce<string>((longest, directory) => {
+			if (typeof directory !== 'string' || directory.length <= longest.length) return longest;
+			return path.startsWith(directory.endsWith(Path.sep) ? directory : `${directory}${Path.sep}`)
+				? directory
+				: longest;
+		}, await findClosestExisting(Path.dirname(path)));
+		// Leave room for incrementer suffix with up to 6 digit index
+		const reserveBytes = Buffer.byteLength(incrementer('', '')[1]) + 5;
+		sanitizedPath = Path.join(
+			directory,
+			sanitizePath(path.slice(directory.length).replace(/^[\\\/]+/, ''), {
+				...sanitizeOptions,
+				reserveBytes,
+				compoundExtensions,
+			})
+		);
 	}
 
-	let outputPath = Path.resolve(
-		inputDirname,
-		expandTemplate(firstInputPath, outputExtension, {...options, destination: template, extraVariables})
-	);
+	/**
+	 * Checks whether sidecars can take their paths. Existing files are only
+	 * overwritten when conflict strategy says so, or when they are the sidecar.
+	 */
+	const canPlaceSidecars = async (sidecars: Sidecar[]) => {
+		for (const outputPath of getSidecarPaths(sidecars)) {
+			if (await pathIsFree(outputPath)) continue;
+			const sidecar = sidecars.find((sidecar) => isSamePath(sidecar.outputPath, outputPath))!;
+			if (await isSameFile(sidecar.path, outputPath)) continue;
+
+			const action = options.onConflict
+				? await options.onConflict(outputPath, sidecar.path)
+				: await resolveConflictStrategy(conflict, outputPath, sidecar.path, options);
+
+			if (action === 'fail') throw new ConflictError(outputPath);
+			if (action !== 'overwrite') return false;
+		}
+		return true;
+	};
 
 	/**
 	 * Decides wether path can be used.
 	 */
-	const decider = async (path: string) => {
-		const pathExists = !(await pathIsFree(path));
-		const matchesInputs = inputPaths.find((inputPath) => isSamePath(path, inputPath)) != null;
-		if (matchesInputs && pathExists) return deleteOriginal;
-		return pathExists ? overwriteDestination : true;
-	};
+	let skipped = false;
+	let isReserved = false;
+	let hasPlaceholder = false;
+	let isMerging = false;
+	let sidecars: Sidecar[] = [];
+	let sidecarPlaceholders: string[] = [];
+	const decider: Decider = async (path, hint) => {
+		const pathExists = hint ? hint.exists : !(await pathIsFree(path));
+		const matchesInputs = pathExists && (await isInput(path));
+		let reason: CandidateReason = 'free';
 
-	outputPath = await unusedFilename(outputPath, {incrementer, decider});
+		if (matchesInputs && pathExists && deleteOriginal) {
+			reason = 'replaces-original';
+		} else if (pathExists && directoryConflict !== 'conflict' && isDirectory && (await isDirectoryPath(path))) {
+			// Originals that shouldn't be deleted are not merged into either
+			if (matchesInputs) reason = 'keeps-original';
+			else if (directoryConflict === 'increment') reason = 'exists';
+			else reason = directoryConflict === 'merge' ? 'merges' : 'overwrites';
+		} else if (pathExists) {
+			const action = options.onConflict
+				? await options.onConflict(path, tmpPath)
+				: await resolveConflictStrategy(conflict, path, tmpPath, options, firstInputPath);
 
-	// Notify that the final path has been determined
-	options.onOutputPath?.(outputPath);
+			if (action === 'fail') throw new ConflictError(path);
 
-	// Ensure destination directory exists
-	const outputDirname = Path.dirname(outputPath);
-	await FSP.mkdir(outputDirname, {recursive: true});
+			// Originals that shouldn't be deleted are never overwritten
+			if (action === 'skip') reason = 'skips';
+			else if (matchesInputs) reason = 'keeps-original';
+			else reason = action === 'overwrite' ? 'overwrites' : 'exists';
+		}
 
-	// Delete inputs when options ask for it
-	if (deleteOriginal) {
-		for (const path of inputPaths) await FSP.rm(path, {force: true});
-	}
+		// Files don't replace directories, and directories don't replace files
+		if (
+			(reason === 'overwrites' || reason === 'replaces-original') &&
+			(await isDirectoryPath(path)) !== isDirectory
+		) {
+			reason = 'exists';
+		}
+
+		let accepted = reason !== 'keeps-original' && reason !== 'exists';
+		const candidateSidecars =
+			accepted && reason !== 'skips' ? placeSidecars(foundSidecars, path, {compoundExtensions, isDirectory}) : [];
+
+		// Sidecars can't take paths of unrelated files either
+		if (accepted && !(await canPlaceSidecars(candidateSidecars))) {
+			reason = 'exists';
+			accepted = false;
+		}
 
-	// Rename temporary file to outputPath
+		if (accepted && reserve && reason !== 'skips') {
+			if (!reservePath(path)) {
+				reason = 'reserved';
+				accepted = false;
+			} else if (reason === 'free') {
+				try {
+					await FSP.mkdir(Path.dirname(path), {recursive: true});
+					hasPlaceholder = await createPlaceholder(path, isDirectory);
+				} catch (error) {
+					releasePath(path);
+					throw error;
+				}
+
+				// Other process was faster
+				if (!hasPlaceholder) {
+					releasePath(path);
+					reason = 'exists';
+					accepted = false;
+				}
+			}
+
+			if (accepted) {
+				const claimed = await claimSidecarPaths(getSidecarPaths(candidateSidecars));
+				if (claimed) {
+					sidecarPlaceholders = claimed;
+				} else {
+					releasePath(path);
+					if (hasPlaceholder) await FSP.rm(path, {recursive: true, force: true});
+					hasPlaceholder = false;
+					reason = 'reserved';
+					accepted = false;
+				}
+			}
+		}
+
+		isReserved = accepted && reserve && reason !== 'skips';
+		skipped = reason === 'skips';
+		isMerging = accepted && reason === 'merges';
+		sidecars = accepted ? candidateSidecars : [];
+		onCandidate?.({path, accepted, reason});
+		return accepted;
+	};
+
+	let outputPath: string;
 	try {
-		// Attempt simple rename
-		await FSP.rename(tmpPath, outputPath);
+		outputPath = await unusedFilename(sanitizedPath, {
+			incrementer,
+			decider,
+			alwaysIncrement,
+			isDirectory,
+			compoundExtensions,
+		});
 	} catch (error) {
-		if ((error as any)?.code !== 'EXDEV') throw error;
+		await releaseSequences();
+		throw error;
+	}
 
-		// Move across partitions/drives when necessary
-		await FSP.cp(tmpPath, outputPath, {recursive: true});
-		await FSP.rm(tmpPath, {recursive: true, force: true});
+	return {
+		template,
+		expandedPath,
+		sanitizedPath,
+		outputPath,
+		skipped,
+		isReserved,
+		hasPlaceholder,
+		isMerging,
+		sidecars,
+		sidecarPlaceholders,
+		releaseSequences,
+	};
+}
+
+/**
+ * Reserves sidecar paths, and claims the free ones with placeholders, same as
+ * the output path.
+ *
+ * Returns created placeholders, or `null` when one of the paths has been
+ * claimed by another save, in which case nothing is left reserved.
+ */
+async function claimSidecarPaths(paths: string[]) {
+	const reserved: string[] = [];
+	const placeholders: string[] = [];
+	const release = async () => {
+		for (const path of reserved) releasePath(path);
+		for (const path of placeholders) await FSP.rm(path, {force: true});
+		return null;
+	};
+
+	try {
+		for (const path of paths) {
+			if (!reservePath(path)) return await release();
+			reserved.push(path);
+			if (!(await pathIsFree(path))) continue;
+			await FSP.mkdir(Path.dirname(path), {recursive: true});
+			// Other process was faster
+			if (!(await createPlaceholder(path))) return await release();
+			placeholders.push(path);
+		}
+	} catch (error) {
+		await release();
+		throw error;
 	}
 
-	return outputPath;
+	return placeholders;
 }
 
 /**
@@ -217,14 +1071,126 @@ export async function saveAsPath(
  *
  * Returns `true` when valid, or throws with an error of what's wrong.
  */
-export function checkSaveAsPathOptions({destination = '${basename}', extraVariables}: SaveAsPathOptions): true {
-	const stubNames = ['tmp', 'home', 'downloads', 'documents', 'pictures', 'music', 'videos', 'desktop'];
-	const hashes = ['crc32', 'md5', 'sha1', 'sha256', 'sha512'];
-	stubNames.push(...hashes, ...hashes.map((name) => name.toUpperCase()));
-	const stubs = stubNames.reduce((stubs, name) => {
-		stubs[name] = `{${name}}`;
-		return stubs;
-	}, {} as Record<string, string>);
-	expandTemplate('/mock/path/to/file.png', 'jpg', {destination, extraVariables: {...stubs, ...extraVariables}});
+export function checkSaveAsPathOptions(options: SaveAsPathOptions): true {
+	const {destination = '${basename}', extraVariables, safe, safeTimeLimit, compoundExtensions} = options;
+	makeIncrementer(options);
+	const stubs = makeVariableStubs();
+	expandTemplate(['/mock/path/to/file 1.png', '/mock/path/file 2.png'], 'jpg', {
+		destination,
+		safe,
+		safeTimeLimit,
+		compoundExtensions,
+		extraVariables: {...stubs, ...stubExtraVariables(extraVariables)},
+	});
 	return true;
 }
+
+/**
+ * Finds all problems of saving options templates, with their positions, and
+ * expands destination with sample values. Unlike `checkSaveAsPathOptions()`,
+ * it doesn't throw.
+ */
+export function analyzeSaveAsPathOptions(options: SaveAsPathOptions): SaveAsPathAnalysis {
+	const {extraVariables, deleteOriginal, safe, safeTimeLimit} = options;
+	const template = options.destination || '${basename}';
+	// Same as examples in option schema description
+	const inputPath = Path.resolve('/foo/bar/baz.png');
+	const outputExtension = 'jpg';
+	const scan = scanTemplate(template);
+	const stubs = {...makeVariableStubs(), ...stubExtraVariables(extraVariables)};
+	const knownNames = [...Object.keys(makePathVariables([inputPath], outputExtension)), ...Object.keys(stubs)];
+	const problems: TemplateProblem[] = [];
+	let sample: string | null = null;
+
+	try {
+		makeIncrementer(options);
+	} catch (error) {
+		problems.push({
+			severity: 'error',
+			code: 'incrementer',
+			option: 'incrementerTemplate',
+			message: (error as any)?.message || `${error}`,
+			start: 0,
+			end: (options.incrementerTemplate || '').length,
+		});
+	}
+
+	let syntaxProblems: TemplateProblem[] = [];
+	if (safe) {
+		try {
+			checkSafeTemplateSyntax(template);
+		} catch (error) {
+			if (!(error instanceof SafeTemplateError)) throw error;
+			const {message, position} = error;
+			const end = position + 1;
+			syntaxProblems = [
+				{severity: 'error', code: 'syntax', option: 'destination', message, start: position, end},
+			];
+		}
+	} else {
+		syntaxProblems = findSyntaxProblems(template, scan);
+	}
+
+	const unknownVariables = findUnknownVariables(scan, knownNames);
+	problems.push(...syntaxProblems, ...unknownVariables);
+
+	if (syntaxProblems.length === 0) {
+		// Unknown variables are already reported, stubbing them lets us find the rest of the problems
+		const unknownStubs: Record<string, unknown> = {};
+		for (const {start, end} of unknownVariables) {
+			const name = template.slice(start, end);
+			unknownStubs[name] = makeUniversalStub(`{${name}}`);
+		}
+
+		try {
+			const expanded = expandTemplate([inputPath], outputExtension, {
+				destination: template,
+				compoundExtensions: options.compoundExtensions,
+				safe,
+				safeTimeLimit,
+				extraVariables: {...stubs, ...unknownStubs},
+			});
+			sample = Path.resolve(Path.dirname(inputPath), expanded);
+			// Sample being a parent directory of the input means there is no filename
+			const relativeToSample = Path.relative(sample, inputPath);
+			const isParentDirectory =
+				relativeToSample !== '' && !relativeToSample.startsWith('..') && !Path.isAbsolute(relativeToSample);
+
+			if (/[\\\/]$/.test(expanded) || !expanded.trim() || isParentDirectory) {
+				const end = template.length;
+				problems.push({
+					severity: 'warning',
+					code: 'no-filename',
+					option: 'destination',
+					message: `Destination resolves to a directory. Add a filename, such as "\${basename}".`,
+					start: end,
+					end,
+				});
+			} else if (!deleteOriginal && isSamePath(sample, inputPath)) {
+				problems.push({
+					severity: 'warning',
+					code: 'same-as-input',
+					option: 'destination',
+					message: `Destination is the input file, which is not being deleted, so outputs will always be incremented.`,
+					start: 0,
+					end: template.length,
+				});
+			}
+		} catch (error) {
+			const position = error instanceof SafeTemplateError ? error.position : null;
+			problems.push({
+				severity: 'error',
+				code: 'runtime',
+				option: 'destination',
+				message: (error as any)?.message || `${error}`,
+				start: position ?? 0,
+				end: position != null ? position + 1 : template.length,
+			});
+		}
+	}
+
+	const isOverwriting = getConflictStrategy(options).startsWith('overwrite');
+	problems.push(...lintTemplate(template, scan, {isOverwriting}));
+
+	return {problems, sample};
+}
@@ -0,0 +1,191 @@
+import {promises as FSP} from 'fs';
+import {pathIsFree, toPathKey, uid} from './utils';
+import {withFileLock, writeFileAtomic} from './store';
+import {restoreStaged} from './staging';
+import {trash} from './trash';
+
+/**
+ * Item that was on a path the save has changed, kept aside so that the save
+ * can be undone:
+ * - `original` - deleted input, or its sidecar
+ * - `overwritten` - file or directory the output replaced
+ */
+export interface JournalBackup {
+	path: string;
+	backupPath: string;
+	kind: 'original' | 'overwritten';
+}
+
+/**
+ * Single save, stored as one line of the journal.
+ */
+export interface JournalEntry {
+	batchId: string;
+	// ISO 8601 time of the save
+	time: string;
+	outputPath: string;
+	// Paths the save has created, including sidecars and merged items
+	created: string[];
+	backups: JournalBackup[];
+	// How originals are disposed of once the journal is pruned
+	deleteMethod: 'delete' | 'trash';
+}
+
+export interface JournalOptions {
+	batchId?: string;
+}
+
+export interface UndoJournalResult {
+	// Batch that has been undone, `null` when journal was empty
+	batchId: string | null;
+	// Outputs, and everything else the saves have created
+	removed: string[];
+	// Originals and overwritten files that have been put back
+	restored: string[];
+}
+
+/**
+ * Batch of saves made by this process that don't specify their own.
+ */
+export const PROCESS_BATCH_ID = uid();
+
+export async function appendJournal(journal: string, entry: JournalEntry) {
+	await withFileLock(journal, () => FSP.appendFile(journal, `${JSON.stringify(entry)}\n`));
+}
+
+/**
+ * Undoes all saves of a batch, latest first, by removing what they've created,
+ * and moving backups back where they were. Without `batchId`, the batch of
+ * the last save in the journal is undone.
+ *
+ * Undone saves are removed from the journal. Saves that fail to be undone are
+ * kept in it, and listed in the thrown error, so that undo can be retried.
+ */
+export async function undoJournal(journal: string, {batchId}: JournalOptions = {}): Promise<UndoJournalResult> {
+	return withFileLock(journal, async () => {
+		const entries = await readJournal(journal);
+		const result: UndoJournalResult = {
+			batchId: batchId ?? entries[entries.length - 1]?.batchId ?? null,
+			removed: [],
+			restored: [],
+		};
+		const kept: JournalEntry[] = [];
+		const failed: string[] = [];
+
+		// Later saves might have replaced outputs of earlier ones
+		for (const entry of [...entries].reverse()) {
+			if (entry.batchId !== result.batchId) {
+				kept.unshift(entry);
+				continue;
+			}
+
+			try {
+				await undoEntry(entry, result);
+			} catch (error) {
+				kept.unshift(entry);
+				failed.push(`"${entry.outputPath}" (${(error as any)?.message || error})`);
+			}
+		}
+
+		await writeJournal(journal, kept);
+		if (failed.length > 0) throw new Error(`Failed to undo: ${failed.join(', ')}.`);
+
+		return result;
+	});
+}
+
+/**
+ * Permanently disposes of backups, so that saves can no longer be undone.
+ * Originals are deleted, or moved to trash, as the save was configured to.
+ * Without `batchId`, the whole journal is pruned.
+ */
+export async function pruneJournal(journal: string, {batchId}: JournalOptions = {}) {
+	await withFileLock(journal, async () => {
+		const entries = await readJournal(journal);
+		const kept: JournalEntry[] = [];
+		let failure: {error: unknown} | null = null;
+
+		for (const entry of entries) {
+			// Pruning is repeatable, so the rest is left for the next time
+			if (failure || (batchId != null && entry.batchId !== batchId)) {
+				kept.push(entry);
+				continue;
+			}
+
+			try {
+				await disposeBackups(entry);
+			} catch (error) {
+				failure = {error};
+				kept.push(entry);
+			}
+		}
+
+		await writeJournal(journal, kept);
+		if (failure) throw failure.error;
+	});
+}
+
+/**
+ * Backups that have already been disposed of are skipped.
+ */
+async function disposeBackups({backups, deleteMethod}: JournalEntry) {
+	for (const {path, backupPath, kind} of backups) {
+		if (await pathIsFree(backupPath)) continue;
+		if (kind === 'original' && deleteMethod === 'trash') await trash(backupPath, {originalPath: path});
+		else await FSP.rm(backupPath, {recursive: true, force: true});
+	}
+}
+
+/**
+ * Removes what the save has created, and restores its backups. Backups that
+ * are gone have been restored by a previous, interrupted undo, so their paths
+ * are left alone.
+ */
+async function undoEntry({created, backups}: JournalEntry, result: UndoJournalResult) {
+	const pending: JournalBackup[] = [];
+	const restoredKeys = new Set<string>();
+
+	for (const backup of backups) {
+		if (await pathIsFree(backup.backupPath)) restoredKeys.add(toPathKey(backup.path));
+		else pending.push(backup);
+	}
+
+	for (const path of created) {
+		if (restoredKeys.has(toPathKey(path)) || (await pathIsFree(path))) continue;
+		await FSP.rm(path, {recursive: true, force: true});
+		result.removed.push(path);
+	}
+
+	// In reverse order of staging, same as a rollback
+	for (const {path, backupPath} of pending.reverse()) {
+		await restoreStaged({path, stagedPath: backupPath});
+		result.restored.push(path);
+	}
+}
+
+/**
+ * Reads journal entries. Last line without a line break is a write that
+ * has been interrupted by a crash, and is ignored.
+ */
+async function readJournal(journal: string): Promise<JournalEntry[]> {
+	let contents: string;
+
+	try {
+		contents = await FSP.readFile(journal, 'utf8');
+	} catch (error) {
+		if ((error as any)?.code === 'ENOENT') return [];
+		throw error;
+	}
+
+	const lines = contents.split('\n').slice(0, -1);
+
+	try {
+		return lines.filter((line) => line.trim()).map((line) => JSON.parse(line));
+	} catch (error) {
+		throw new Error(`Journal "${journal}" is corrupted.`);
+	}
+}
+
+async function writeJournal(journal: string, entries: JournalEntry[]) {
+	await writeFileAtomic(journal, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(''));
+}
@@ -0,0 +1,255 @@
+import {promises as FSP} from 'fs';
+import * as dayjs from 'dayjs';
+
+export interface MediaInfo {
+	width?: number;
+	height?: number;
+	orientation?: number;
+	exif: ExifInfo;
+}
+
+export interface ExifInfo {
+	date?: dayjs.Dayjs;
+	make?: string;
+	model?: string;
+	lens?: string;
+}
+
+interface Reader {
+	(position: number, length: number): Promise<Buffer>;
+}
+
+// EXIF data larger than this is read only partially
+const MAX_EXIF_LENGTH = 1024 * 1024;
+
+const TAGS = {
+	imageWidth: 0x0100,
+	imageHeight: 0x0101,
+	make: 0x010f,
+	model: 0x0110,
+	orientation: 0x0112,
+	dateTime: 0x0132,
+	exifIfd: 0x8769,
+	dateTimeOriginal: 0x9003,
+	pixelXDimension: 0xa002,
+	pixelYDimension: 0xa003,
+	lensModel: 0xa434,
+};
+
+/**
+ * Reads image dimensions, orientation, and EXIF data from a file header.
+ * Supports PNG, JPEG, GIF, WebP, BMP, and TIFF. Only reads the parts of a
+ * file it needs, and never throws on unknown or corrupted files, it just
+ * returns less info.
+ */
+export async function readMediaInfo(path: string): Promise<MediaInfo> {
+	const handle = await FSP.open(path, 'r');
+
+	try {
+		const {size} = await handle.stat();
+		// Lengths come from the file itself, and can't be trusted to fit into it
+		const read: Reader = async (position, length) => {
+			length = Math.max(0, Math.min(length, size - position));
+			const buffer = Buffer.alloc(length);
+			const {bytesRead} = await handle.read(buffer, 0, length, position);
+			return buffer.subarray(0, bytesRead);
+		};
+		const header = await read(0, 32);
+		const info: MediaInfo = {exif: {}};
+
+		try {
+			if (header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+				await readPng(read, info);
+			} else if (header[0] === 0xff && header[1] === 0xd8) {
+				await readJpeg(read, info);
+			} else if (header.toString('latin1', 0, 3) === 'GIF') {
+				info.width = header.readUInt16LE(6);
+				info.height = header.readUInt16LE(8);
+			} else if (header.toString('latin1', 0, 4) === 'RIFF' && header.toString('latin1', 8, 12) === 'WEBP') {
+				await readWebp(read, info);
+			} else if (header.toString('latin1', 0, 2) === 'BM') {
+				readBmp(header, info);
+			} else if (isTiffHeader(header)) {
+				parseTiff(await read(0, MAX_EXIF_LENGTH), info, true);
+			}
+		} catch (error) {
+			// Truncated or corrupted files just don't provide any more info
+			if (!(error instanceof RangeError)) throw error;
+		}
+
+		return info;
+	} finally {
+		await handle.close();
+	}
+}
+
+async function readPng(read: Reader, info: MediaInfo) {
+	let position = 8;
+
+	while (true) {
+		const chunkHeader = await read(position, 8);
+		if (chunkHeader.length < 8) return;
+		const length = chunkHeader.readUInt32BE(0);
+		const type = chunkHeader.toString('latin1', 4, 8);
+
+		if (type === 'IHDR') {
+			const data = await read(position + 8, 8);
+			info.width = data.readUInt32BE(0);
+			info.height = data.readUInt32BE(4);
+		} else if (type === 'eXIf') {
+			parseTiff(await read(position + 8, Math.min(length, MAX_EXIF_LENGTH)), info);
+		} else if (type === 'IDAT' || type === 'IEND') {
+			return;
+		}
+
+		position += 12 + length;
+	}
+}
+
+async function readJpeg(read: Reader, info: MediaInfo) {
+	let position = 2;
+
+	while (true) {
+		const marker = await read(position, 4);
+		if (marker.length < 4 || marker[0] !== 0xff) return;
+		const type = marker[1]!;
+		const length = marker.readUInt16BE(2);
+
+		// Start of scan, no more headers after this
+		if (type === 0xda || type === 0xd9) return;
+
+		if (type === 0xe1) {
+			const data = await read(position + 4, length - 2);
+			if (data.toString('latin1', 0, 6) === 'Exif\0\0') parseTiff(data.subarray(6), info);
+		} else if (type >= 0xc0 && type <= 0xcf && type !== 0xc4 && type !== 0xc8 && type !== 0xcc) {
+			const data = await read(position + 4, 5);
+			info.height = data.readUInt16BE(1);
+			info.width = data.readUInt16BE(3);
+		}
+
+		position += 2 + length;
+	}
+}
+
+async function readWebp(read: Reader, info: MediaInfo) {
+	let position = 12;
+
+	while (true) {
+		const chunkHeader = await read(position, 8);
+		if (chunkHeader.length < 8) return;
+		const type = chunkHeader.toString('latin1', 0, 4);
+		const length = chunkHeader.readUInt32LE(4);
+		const data = await read(position + 8, type === 'EXIF' ? Math.min(length, MAX_EXIF_LENGTH) : 10);
+
+		if (type === 'VP8 ') {
+			info.width = data.readUInt16LE(6) & 0x3fff;
+			info.height = data.readUInt16LE(8) & 0x3fff;
+			return;
+		} else if (type === 'VP8L') {
+			const bits = data.readUInt32LE(1);
+			info.width = (bits & 0x3fff) + 1;
+			info.height = ((bits >> 14) & 0x3fff) + 1;
+			return;
+		} else if (type === 'VP8X') {
+			info.width = data.readUIntLE(4, 3) + 1;
+			info.height = data.readUIntLE(7, 3) + 1;
+		} else if (type === 'EXIF') {
+			// Some encoders keep the JPEG APP1 identifier
+			parseTiff(data.toString('latin1', 0, 6) === 'Exif\0\0' ? data.subarray(6) : data, info);
+		}
+
+		// Chunks are padded to even sizes
+		position += 8 + length + (length % 2);
+	}
+}
+
+function readBmp(header: Buffer, info: MediaInfo) {
+	const dibHeaderSize = header.readUInt32LE(14);
+
+	if (dibHeaderSize === 12) {
+		info.width = header.readUInt16LE(18);
+		info.height = header.readUInt16LE(20);
+	} else {
+		info.width = header.readInt32LE(18);
+		// Negative height means top-down bitmap
+		info.height = Math.abs(header.readInt32LE(22));
+	}
+}
+
+const isTiffHeader = (buffer: Buffer) =>
+	(buffer.toString('latin1', 0, 2) === 'II' && buffer.readUInt16LE(2) === 42) ||
+	(buffer.toString('latin1', 0, 2) === 'MM' && buffer.readUInt16BE(2) === 42);
+
+/**
+ * Parses TIFF structure, which is also how EXIF data is stored.
+ *
+ * `isImage` means TIFF is the image itself, and not just an EXIF block, so
+ * its dimensions are the image dimensions.
+ */
+function parseTiff(buffer: Buffer, info: MediaInfo, isImage = false) {
+	if (!isTiffHeader(buffer)) return;
+
+	const isLittleEndian = buffer.toString('latin1', 0, 2) === 'II';
+	const uint16 = (offset: number) => (isLittleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset));
+	const uint32 = (offset: number) => (isLittleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset));
+
+	const readIfd = (offset: number) => {
+		const entries = new Map<number, number | string>();
+		const count = uint16(offset);
+
+		for (let index = 0; index < count; index++) {
+			const entryOffset = offset + 2 + index * 12;
+			const tag = uint16(entryOffset);
+			const type = uint16(entryOffset + 2);
+			const valueCount = uint32(entryOffset + 4);
+
+			if (type === 2) {
+				// ASCII values that don't fit 4 bytes are stored at an offset
+				const valueOffset = valueCount > 4 ? uint32(entryOffset + 8) : entryOffset + 8;
+				const value = buffer.toString('latin1', valueOffset, valueOffset + valueCount);
+				entries.set(tag, value.replace(/\0.*$/s, '').trim());
+			} else if (type === 3) {
+				entries.set(tag, uint16(entryOffset + 8));
+			} else if (type === 4) {
+				entries.set(tag, uint32(entryOffset + 8));
+			}
+		}
+
+		return entries;
+	};
+
+	const ifd0 = readIfd(uint32(4));
+	const exifIfdOffset = ifd0.get(TAGS.exifIfd);
+	const exifIfd = typeof exifIfdOffset === 'number' ? readIfd(exifIfdOffset) : new Map<number, number | string>();
+	const number = (value: unknown) => (typeof value === 'number' ? value : undefined);
+	const string = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+
+	const orientation = number(ifd0.get(TAGS.orientation));
+	if (orientation != null) info.orientation = orientation;
+
+	if (isImage) {
+		info.width = number(ifd0.get(TAGS.imageWidth));
+		info.height = number(ifd0.get(TAGS.imageHeight));
+	} else if (info.width == null) {
+		info.width = number(exifIfd.get(TAGS.pixelXDimension));
+		info.height = number(exifIfd.get(TAGS.pixelYDimension));
+	}
+
+	info.exif = {
+		date: parseExifDate(string(exifIfd.get(TAGS.dateTimeOriginal)) || string(ifd0.get(TAGS.dateTime))),
+		make: string(ifd0.get(TAGS.make)),
+		model: string(ifd0.get(TAGS.model)),
+		lens: string(exifIfd.get(TAGS.lensModel)),
+	};
+}
+
+/**
+ * Parses EXIF date format `YYYY:MM:DD HH:mm:ss` as a local time.
+ */
+function parseExifDate(value: string | undefined) {
+	const match = value?.match(/^(\d{4}):(\d\d):(\d\d) (\d\d):(\d\d):(\d\d)/);
+	if (!match) return undefined;
+	const [, year, month, day, hours, minutes, seconds] = match.map(Number) as number[];
+	const date = dayjs(new Date(year!, month! - 1, day, hours, minutes, seconds));
+	return date.isValid() ? date : undefined;
+}
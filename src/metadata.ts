@@ -0,0 +1,125 @@
+import {promises as FSP} from 'fs';
+import {execFile} from 'child_process';
+
+export interface FileMetadata {
+	atime: Date;
+	mtime: Date;
+	mode: number;
+	uid: number;
+	gid: number;
+	isDirectory: boolean;
+	// Extended attribute values by their names
+	xattrs: Map<string, Buffer>;
+}
+
+const XATTR_TIMEOUT = 5000;
+
+// Commands that are not installed, so that they're not spawned for every save
+const missingCommands = new Set<string>();
+
+/**
+ * Reads metadata of a file that can be carried over to another one. Returns
+ * `null` when file doesn't exist.
+ */
+export async function readMetadata(path: string): Promise<FileMetadata | null> {
+	let stat;
+
+	try {
+		stat = await FSP.stat(path);
+	} catch (error) {
+		if ((error as any)?.code === 'ENOENT') return null;
+		throw error;
+	}
+
+	return {
+		atime: stat.atime,
+		mtime: stat.mtime,
+		mode: stat.mode,
+		uid: stat.uid,
+		gid: stat.gid,
+		isDirectory: stat.isDirectory(),
+		xattrs: await readXattrs(path),
+	};
+}
+
+/**
+ * Applies metadata onto a file. Ownership is only changed where permitted,
+ * and permissions only when both are the same type (file or directory).
+ * Extended attributes are best effort, and skipped on platforms and systems
+ * that don't have the tools to manage them.
+ */
+export async function applyMetadata(path: string, metadata: FileMetadata) {
+	const stat = await FSP.stat(path);
+
+	// Changing owner can clear setuid/setgid bits, so it goes before chmod
+	if (process.platform !== 'win32' && (stat.uid !== metadata.uid || stat.gid !== metadata.gid)) {
+		try {
+			await FSP.chown(path, metadata.uid, metadata.gid);
+		} catch (error) {
+			if (!['EPERM', 'EINVAL'].includes((error as any)?.code)) throw error;
+		}
+	}
+
+	if (stat.isDirectory() === metadata.isDirectory) await FSP.chmod(path, metadata.mode & 0o7777);
+	await writeXattrs(path, metadata.xattrs);
+
+	// Last, as changing anything else might touch the times
+	await FSP.utimes(path, metadata.atime, metadata.mtime);
+}
+
+/**
+ * Reads user extended attributes. On Linux these are ones in the `user.`
+ * namespace, on macOS all of them, as it doesn't have namespaces.
+ */
+async function readXattrs(path: string) {
+	const xattrs = new Map<string, Buffer>();
+
+	if (process.platform === 'linux') {
+		const output = await run('getfattr', ['--absolute-names', '-d', '-m', '^user\\.', '-e', 'base64', '--', path]);
+		for (const line of output?.split('\n') || []) {
+			if (!line.startsWith('user.')) continue;
+			const separatorIndex = line.indexOf('=');
+			if (separatorIndex === -1) {
+				xattrs.set(line, Buffer.alloc(0));
+				continue;
+			}
+			const value = line.slice(separatorIndex + 1).replace(/^0s/, '');
+			xattrs.set(line.slice(0, separatorIndex), Buffer.from(value, 'base64'));
+		}
+	} else if (process.platform === 'darwin') {
+		const output = await run('xattr', ['--', path]);
+		for (const name of output?.split('\n') || []) {
+			if (!name) continue;
+			const value = await run('xattr', ['-px', name, path]);
+			if (value != null) xattrs.set(name, Buffer.from(value.replace(/\s+/g, ''), 'hex'));
+		}
+	}
+
+	return xattrs;
+}
+
+async function writeXattrs(path: string, xattrs: Map<string, Buffer>) {
+	for (const [name, value] of xattrs) {
+		if (process.platform === 'linux') {
+			const encoded = value.length > 0 ? `0s${value.toString('base64')}` : '';
+			await run('setfattr', ['-n', name, '-v', encoded, '--', path]);
+		} else if (process.platform === 'darwin') {
+			await run('xattr', ['-wx', name, value.toString('hex'), path]);
+		}
+	}
+}
+
+/**
+ * Runs a command, and resolves with its output, or `null` when it's not
+ * available, or fails. Filesystems without extended attribute support, or
+ * attributes that can't be set, are not worth failing the save for.
+ */
+function run(command: string, args: string[]) {
+	return new Promise<string | null>((resolve) => {
+		if (missingCommands.has(command)) return resolve(null);
+		execFile(command, args, {timeout: XATTR_TIMEOUT, maxBuffer: 16 * 1024 * 1024}, (error, stdout) => {
+			if ((error as any)?.code === 'ENOENT') missingCommands.add(command);
+			resolve(error ? null : stdout);
+		});
+	});
+}
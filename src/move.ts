@@ -0,0 +1,253 @@
+import * as Path from 'path';
+import {promises as FSP, Stats} from 'fs';
+import {uid} from './utils';
+import {formatSize} from './variables';
+import {hashFile, OperationHooks} from './progress';
+import {listEntries} from './tree';
+import {stagePath, StagedPath} from './staging';
+
+export class InsufficientSpaceError extends Error {
+	path: string;
+	required: number;
+	available: number;
+
+	constructor(path: string, required: number, available: number) {
+		super(
+			`Not enough free space in "${path}", ${formatSize(required)} is required, but only ${formatSize(
+				available
+			)} is available.`
+		);
+		this.path = path;
+		this.required = required;
+		this.available = available;
+	}
+}
+
+export interface MoveOptions extends OperationHooks {
+	// Compare checksums of copied files with originals
+	verify?: boolean;
+}
+
+const CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Renames temporary path to output path, or copies it over when they are on
+ * different partitions/drives.
+ */
+export async function moveTmpPath(tmpPath: string, outputPath: string, options: MoveOptions = {}) {
+	try {
+		// Attempt simple rename
+		await FSP.rename(tmpPath, outputPath);
+	} catch (error) {
+		if ((error as any)?.code !== 'EXDEV') throw error;
+
+		// Move across partitions/drives when necessary
+		await copyAcrossDevices(tmpPath, outputPath, options);
+		await FSP.rm(tmpPath, {recursive: true, force: true});
+	}
+}
+
+/**
+ * Moves contents of temporary directory into an existing output directory.
+ * Directories that are in both are merged recursively, anything else in the
+ * output directory that is in the way is staged into `staged`, to be disposed
+ * of, or restored by the caller.
+ *
+ * Temporary directory is first moved next to the output directory, so that
+ * the merge itself consists only of renames. When it fails, merged items are
+ * moved back to the temporary directory.
+ *
+ * Returns paths of merged items, which didn't exist in the output directory.
+ */
+export async function mergeTmpPath(
+	tmpPath: string,
+	outputPath: string,
+	staged: StagedPath[],
+	options: MoveOptions = {}
+) {
+	const mergePath = Path.join(Path.dirname(outputPath), `.${Path.basename(outputPath)}.${uid(6)}.merge`);
+	const moved: {from: string; to: string}[] = [];
+
+	await moveTmpPath(tmpPath, mergePath, options);
+
+	try {
+		await mergeDirectory(mergePath, outputPath, staged, moved);
+		await FSP.rm(mergePath, {recursive: true, force: true});
+		return moved.map(({to}) => to);
+	} catch (error) {
+		for (const {from, to} of moved.reverse()) await FSP.rename(to, from);
+		await moveTmpPath(mergePath, tmpPath);
+		throw error;
+	}
+}
+
+async function mergeDirectory(
+	sourcePath: string,
+	destinationPath: string,
+	staged: StagedPath[],
+	moved: {from: string; to: string}[]
+) {
+	for (const name of await FSP.readdir(sourcePath)) {
+		const from = Path.join(sourcePath, name);
+		const to = Path.join(destinationPath, name);
+		const [fromStat, toStat] = await Promise.all([FSP.lstat(from), FSP.lstat(to).catch(() => null)]);
+
+		if (fromStat.isDirectory() && toStat?.isDirectory()) {
+			await mergeDirectory(from, to, staged, moved);
+			continue;
+		}
+
+		const item = await stagePath(to);
+		if (item) staged.push(item);
+		await FSP.rename(from, to);
+		moved.push({from, to});
+	}
+}
+
+/**
+ * Copies source into a temporary sibling of the destination, and renames it in
+ * place once it's complete, flushed to disk, and optionally verified. This
+ * way destination never contains a partial copy, even when process crashes.
+ *
+ * Aborting the signal stops the copy, and removes the temporary sibling.
+ */
+async function copyAcrossDevices(sourcePath: string, destinationPath: string, options: MoveOptions) {
+	const {verify = false, signal, onProgress} = options;
+	const directory = Path.dirname(destinationPath);
+	const entries = await listEntries(sourcePath);
+	const files = entries.filter(({stat}) => stat.isFile());
+	const totalBytes = files.reduce((total, {stat}) => total + stat.size, 0);
+	await ensureFreeSpace(directory, totalBytes);
+
+	const copyPath = Path.join(directory, `.${Path.basename(destinationPath)}.${uid(6)}.copy`);
+	let bytesCopied = 0;
+	const onChunk = (bytes: number) => {
+		bytesCopied += bytes;
+		onProgress?.({stage: 'copy', path: sourcePath, bytesCopied, totalBytes});
+	};
+
+	try {
+		for (const {path, stat} of entries) {
+			const source = Path.join(sourcePath, path);
+			const target = Path.join(copyPath, path);
+			if (stat.isDirectory()) await FSP.mkdir(target);
+			else if (stat.isSymbolicLink()) await FSP.symlink(await FSP.readlink(source), target);
+			else await copyFile(source, target, stat, onChunk, signal);
+		}
+
+		// Creating contents changes directory times, so they are restored last
+		for (const {path, stat} of [...entries].reverse()) {
+			if (!stat.isDirectory()) continue;
+			const target = Path.join(copyPath, path);
+			await FSP.chmod(target, stat.mode & 0o7777);
+			await FSP.utimes(target, stat.atime, stat.mtime);
+		}
+
+		if (verify) {
+			for (const {path} of files) {
+				const source = Path.join(sourcePath, path);
+				const sourceChecksum = await hashFile(source, 'sha256', options);
+				const copyChecksum = await hashFile(Path.join(copyPath, path), 'sha256', options);
+				if (sourceChecksum !== copyChecksum) throw new Error(`Copy of "${source}" doesn't match the original.`);
+			}
+		}
+
+		await renameOverPlaceholder(copyPath, destinationPath);
+		await syncDirectory(directory);
+	} catch (error) {
+		await FSP.rm(copyPath, {recursive: true, force: true});
+		throw error;
+	}
+}
+
+/**
+ * Copies file contents in chunks, with permissions and times, and flushes it
+ * to disk.
+ */
+async function copyFile(
+	source: string,
+	target: string,
+	stat: Stats,
+	onChunk: (bytes: number) => void,
+	signal?: AbortSignal
+) {
+	const input = await FSP.open(source, 'r');
+	try {
+		const output = await FSP.open(target, 'wx');
+		try {
+			const buffer = Buffer.allocUnsafe(Math.min(CHUNK_SIZE, Math.max(stat.size, 1)));
+			let bytesCopied = 0;
+
+			while (true) {
+				signal?.throwIfAborted();
+				const {bytesRead} = await input.read(buffer, 0, buffer.length, null);
+				if (bytesRead === 0) break;
+				for (let offset = 0; offset < bytesRead; ) {
+					offset += (await output.write(buffer, offset, bytesRead - offset)).bytesWritten;
+				}
+				bytesCopied += bytesRead;
+				onChunk(bytesRead);
+			}
+
+			if (bytesCopied !== stat.size) throw new Error(`Copy of "${source}" doesn't match the original.`);
+			await output.chmod(stat.mode & 0o7777);
+			await output.utimes(stat.atime, stat.mtime);
+			await output.sync();
+		} finally {
+			await output.close();
+		}
+	} finally {
+		await input.close();
+	}
+}
+
+/**
+ * Throws `InsufficientSpaceError` when `directory` doesn't have `required`
+ * bytes available. Check is skipped when platform can't tell.
+ */
+async function ensureFreeSpace(directory: string, required: number) {
+	let available: number;
+
+	try {
+		const {bavail, bsize} = await FSP.statfs(directory);
+		available = bavail * bsize;
+	} catch (error) {
+		return;
+	}
+
+	if (available < required) throw new InsufficientSpaceError(directory, required, available);
+}
+
+/**
+ * Flushes directory entries to disk, on platforms that support it.
+ */
+async function syncDirectory(path: string) {
+	let handle: FSP.FileHandle | undefined;
+	try {
+		handle = await FSP.open(path, 'r');
+		await handle.sync();
+	} catch (error) {
+		if (!['EPERM', 'EBADF', 'EINVAL', 'EISDIR'].includes((error as any)?.code)) throw error;
+	} finally {
+		await handle?.close();
+	}
+}
+
+/**
+ * Renames path over destination, which might be an empty directory
+ * placeholder, that can't be replaced by a rename on all platforms.
+ */
+async function renameOverPlaceholder(path: string, destinationPath: string) {
+	try {
+		await FSP.rename(path, destinationPath);
+	} catch (error) {
+		const isDirectory = await FSP.stat(destinationPath).then(
+			(stat) => stat.isDirectory(),
+			() => false
+		);
+		if (!isDirectory || !['EPERM', 'EEXIST', 'ENOTEMPTY', 'EISDIR'].includes((error as any)?.code)) throw error;
+		// Only removes empty directories
+		await FSP.rmdir(destinationPath);
+		await FSP.rename(path, destinationPath);
+	}
+}
@@ -0,0 +1,92 @@
+import * as Path from 'path';
+import {createReadStream, promises as FSP} from 'fs';
+import {checksum} from '@tomasklaen/checksum';
+import {listEntries} from './tree';
+
+export interface SaveAsPathProgress {
+	stage: 'copy' | 'checksum';
+	// File being copied or hashed
+	path: string;
+	// Bytes processed so far in the current stage
+	bytesCopied: number;
+	totalBytes: number;
+}
+
+export interface ChecksumDetails {
+	path: string;
+	algorithm: string;
+}
+
+/**
+ * Hooks and cancellation of long running filesystem operations.
+ */
+export interface OperationHooks {
+	signal?: AbortSignal;
+	onProgress?: (progress: SaveAsPathProgress) => void;
+	onChecksum?: (checksum: string, details: ChecksumDetails) => void;
+}
+
+/**
+ * Computes file checksum, reporting progress. Aborting the signal stops
+ * reading the file, and rejects with the signal's reason.
+ */
+export async function hashFile(
+	path: string,
+	algorithm: string,
+	{signal, onProgress, onChecksum}: OperationHooks = {}
+): Promise<string> {
+	signal?.throwIfAborted();
+	const totalBytes = onProgress ? (await FSP.stat(path)).size : 0;
+	const stream = createReadStream(path);
+	const abort = () => stream.destroy(signal?.reason);
+	let bytesCopied = 0;
+
+	if (onProgress) {
+		stream.on('data', (chunk) => {
+			bytesCopied += chunk.length;
+			onProgress({stage: 'checksum', path, bytesCopied, totalBytes});
+		});
+	}
+
+	signal?.addEventListener('abort', abort);
+	if (signal?.aborted) abort();
+	try {
+		const result = await checksum(stream, algorithm);
+		onChecksum?.(result, {path, algorithm});
+		return result;
+	} finally {
+		signal?.removeEventListener('abort', abort);
+	}
+}
+
+/**
+ * Computes checksum of a file, or a directory tree.
+ *
+ * Tree checksum is a checksum of its manifest, which lists every entry in the
+ * tree sorted by its relative path (with `/` separators), along with its type,
+ * and checksum of its contents for files, or target for symlinks. It only
+ * depends on the names and contents, not on times, permissions, or order in
+ * which the filesystem lists them. Progress is reported for each file.
+ */
+export async function hashPath(path: string, algorithm: string, hooks: OperationHooks = {}): Promise<string> {
+	const {signal, onProgress, onChecksum} = hooks;
+	if (!(await FSP.stat(path)).isDirectory()) return hashFile(path, algorithm, hooks);
+
+	const entries = (await listEntries(path))
+		.filter((entry) => entry.path !== '')
+		.map((entry) => ({...entry, name: entry.path.split(Path.sep).join('/')}))
+		.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+	let manifest = '';
+
+	for (const {path: relativePath, name, stat} of entries) {
+		const entryPath = Path.join(path, relativePath);
+		let value = '';
+		if (stat.isSymbolicLink()) value = await FSP.readlink(entryPath);
+		else if (stat.isFile()) value = await hashFile(entryPath, algorithm, {signal, onProgress});
+		manifest += `${stat.isDirectory() ? 'd' : stat.isSymbolicLink() ? 'l' : 'f'}\0${name}\0${value}\0`;
+	}
+
+	const result = await checksum(manifest, algorithm);
+	onChecksum?.(result, {path, algorithm});
+	return result;
+}
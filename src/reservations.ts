@@ -0,0 +1,42 @@
+import {promises as FSP} from 'fs';
+import {toPathKey} from './utils';
+
+/**
+ * Paths claimed by `saveAsPath()` calls in progress in this process.
+ */
+const reservedPaths = new Set<string>();
+
+/**
+ * Claims the path for the current process. Check and claim happen
+ * synchronously, so two calls can never both succeed.
+ *
+ * Returns `false` when path is already reserved.
+ */
+export function reservePath(path: string) {
+	const key = toPathKey(path);
+	if (reservedPaths.has(key)) return false;
+	reservedPaths.add(key);
+	return true;
+}
+
+export function releasePath(path: string) {
+	reservedPaths.delete(toPathKey(path));
+}
+
+/**
+ * Claims a free path across processes by exclusively creating an empty
+ * placeholder file (or directory, for directory outputs) on it, which is later
+ * atomically replaced by the output.
+ *
+ * Returns `false` when something already exists on the path.
+ */
+export async function createPlaceholder(path: string, isDirectory = false) {
+	try {
+		if (isDirectory) await FSP.mkdir(path);
+		else await FSP.writeFile(path, '', {flag: 'wx'});
+		return true;
+	} catch (error) {
+		if ((error as any)?.code === 'EEXIST') return false;
+		throw error;
+	}
+}
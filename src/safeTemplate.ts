@@ -0,0 +1,765 @@
+import * as dayjs from 'dayjs';
+import {TemplateError} from 'expand-template-literal';
+
+/**
+ * Template error with a position (character offset) in the template where it
+ * happened.
+ */
+export class SafeTemplateError extends TemplateError {
+	position: number;
+
+	constructor(message: string, position: number) {
+		super(`${message} at position ${position}`);
+		this.position = position;
+	}
+}
+
+export interface SafeTemplateOptions {
+	// Max time in milliseconds the evaluation can take
+	timeLimit?: number;
+}
+
+/**
+ * Values marked with this symbol accept any property access or call. Used by
+ * stubs of values with unknown shape when validating templates.
+ */
+export const ANY_VALUE = Symbol('anyValue');
+
+type Node =
+	| {type: 'literal'; position: number; value: unknown}
+	| {type: 'template'; position: number; quasis: string[]; expressions: Node[]}
+	| {type: 'identifier'; position: number; name: string}
+	| {type: 'member'; position: number; object: Node; property: Node; optional: boolean}
+	| {type: 'call'; position: number; callee: Node; args: Node[]; optional: boolean}
+	| {type: 'unary'; position: number; operator: string; argument: Node}
+	| {type: 'binary'; position: number; operator: string; left: Node; right: Node}
+	| {type: 'conditional'; position: number; test: Node; consequent: Node; alternate: Node}
+	| {type: 'array'; position: number; elements: Node[]}
+	| {type: 'object'; position: number; properties: [string, Node][]}
+	| {type: 'arrow'; position: number; params: string[]; body: Node};
+
+interface Scope {
+	locals: Map<string, unknown>;
+	parent: Scope | null;
+}
+
+export const MAX_STRING_LENGTH = 32768;
+const MAX_CALL_DEPTH = 32;
+const IDENTIFIER = /[\p{ID_Start}$_][\p{ID_Continue}$\u200c\u200d]*/uy;
+const NUMBER = /0[xX][\da-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const ARROW_PARAMS = /\(\s*((?:[A-Za-z_$][\w$]*\s*(?:,\s*[A-Za-z_$][\w$]*\s*)*)?)\)\s*=>|([A-Za-z_$][\w$]*)\s*=>/y;
+const BLOCKED_PROPERTIES = new Set([
+	'constructor',
+	'prototype',
+	'__proto__',
+	'__defineGetter__',
+	'__defineSetter__',
+	'__lookupGetter__',
+	'__lookupSetter__',
+]);
+const FORBIDDEN_KEYWORDS = new Set([
+	'new',
+	'function',
+	'class',
+	'this',
+	'super',
+	'delete',
+	'void',
+	'await',
+	'yield',
+	'import',
+	'var',
+	'let',
+	'const',
+	'in',
+	'instanceof',
+]);
+const BINARY_OPERATORS = [
+	['??'],
+	['||'],
+	['&&'],
+	['===', '!==', '==', '!='],
+	['<=', '>=', '<', '>'],
+	['+', '-'],
+	['*', '/', '%'],
+	['**'],
+];
+const STRING_METHODS = new Set([
+	'at',
+	'charAt',
+	'concat',
+	'endsWith',
+	'includes',
+	'indexOf',
+	'lastIndexOf',
+	'normalize',
+	'padEnd',
+	'padStart',
+	'repeat',
+	'replace',
+	'replaceAll',
+	'slice',
+	'split',
+	'startsWith',
+	'substring',
+	'toLowerCase',
+	'toString',
+	'toUpperCase',
+	'trim',
+	'trimEnd',
+	'trimStart',
+]);
+const NUMBER_METHODS = new Set(['toFixed', 'toPrecision', 'toString']);
+const ARRAY_METHODS = new Set([
+	'at',
+	'concat',
+	'every',
+	'filter',
+	'find',
+	'findIndex',
+	'includes',
+	'indexOf',
+	'join',
+	'lastIndexOf',
+	'map',
+	'slice',
+	'some',
+]);
+const DAYJS_METHODS = new Set([
+	'add',
+	'date',
+	'day',
+	'daysInMonth',
+	'diff',
+	'endOf',
+	'format',
+	'get',
+	'hour',
+	'isAfter',
+	'isBefore',
+	'isSame',
+	'millisecond',
+	'minute',
+	'month',
+	'second',
+	'startOf',
+	'subtract',
+	'toISOString',
+	'unix',
+	'valueOf',
+	'year',
+]);
+
+/**
+ * Expands template without evaluating it as JavaScript. Expressions are
+ * limited to literals, object and array literals, variables, property access,
+ * whitelisted method calls, arithmetic, comparisons, logical operators,
+ * ternaries, and arrow functions passed to array methods. Everything else
+ * throws `SafeTemplateError`.
+ */
+export function expandSafeTemplate(
+	template: string,
+	variables: Record<string, unknown>,
+	{timeLimit = 100}: SafeTemplateOptions = {}
+) {
+	return `${evaluateTemplate(parseSafeTemplate(template), variables, timeLimit)}`;
+}
+
+/**
+ * Throws `SafeTemplateError` when template can't be parsed, without
+ * evaluating it.
+ */
+export function checkSafeTemplateSyntax(template: string) {
+	parseSafeTemplate(template);
+}
+
+/**
+ * Parses the whole template into a `template` node.
+ */
+function parseSafeTemplate(template: string): Node {
+	let index = 0;
+
+	const fail = (message: string, position = index): never => {
+		throw new SafeTemplateError(message, position);
+	};
+
+	const skipWhitespace = () => {
+		while (index < template.length && /\s/.test(template[index]!)) index++;
+	};
+
+	const peek = (token: string) => {
+		skipWhitespace();
+		return template.startsWith(token, index);
+	};
+
+	const eat = (token: string) => {
+		if (!peek(token)) return false;
+		index += token.length;
+		return true;
+	};
+
+	const expect = (token: string) => {
+		if (!eat(token)) {
+			fail(
+				index < template.length ? `Expected "${token}", but found "${template[index]}"` : `Expected "${token}"`
+			);
+		}
+	};
+
+	const match = (regex: RegExp) => {
+		skipWhitespace();
+		regex.lastIndex = index;
+		return regex.exec(template);
+	};
+
+	function readEscape() {
+		const position = index - 1;
+		const char = template[index++];
+		const readHex = (length: number) => {
+			const hex = template.slice(index, index + length);
+			if (!/^[\da-fA-F]+$/.test(hex) || hex.length !== length) fail('Invalid escape sequence', position);
+			index += length;
+			return String.fromCodePoint(parseInt(hex, 16));
+		};
+
+		switch (char) {
+			case undefined:
+				return fail('Unterminated escape sequence', position);
+			case 'n':
+				return '\n';
+			case 't':
+				return '\t';
+			case 'r':
+				return '\r';
+			case 'b':
+				return '\b';
+			case 'f':
+				return '\f';
+			case 'v':
+				return '\v';
+			case '0':
+				return '\0';
+			case 'x':
+				return readHex(2);
+			case 'u': {
+				if (template[index] !== '{') return readHex(4);
+				const end = template.indexOf('}', index);
+				if (end === -1) fail('Invalid escape sequence', position);
+				const hex = template.slice(index + 1, end);
+				index++;
+				const result = readHex(hex.length);
+				index++;
+				return result;
+			}
+			case '\n':
+				return '';
+			case '\r':
+				if (template[index] === '\n') index++;
+				return '';
+			default:
+				return char;
+		}
+	}
+
+	/**
+	 * Parses template literal text until its closing backtick, or the end of
+	 * the template for the top level one.
+	 */
+	function parseTemplateBody(isNested: boolean): Node {
+		const position = index;
+		const quasis: string[] = [];
+		const expressions: Node[] = [];
+		let text = '';
+
+		while (true) {
+			if (index >= template.length) {
+				if (isNested) fail('Unterminated template literal', position - 1);
+				break;
+			}
+
+			const char = template[index]!;
+
+			if (char === '\\') {
+				index++;
+				text += readEscape();
+			} else if (char === '`' && isNested) {
+				index++;
+				break;
+			} else if (char === '$' && template[index + 1] === '{') {
+				index += 2;
+				quasis.push(text);
+				text = '';
+				expressions.push(parseExpression());
+				expect('}');
+			} else {
+				text += char;
+				index++;
+			}
+		}
+
+		quasis.push(text);
+		return {type: 'template', position, quasis, expressions};
+	}
+
+	function parseExpression(): Node {
+		const arrow = match(ARROW_PARAMS);
+
+		if (arrow) {
+			const position = index;
+			index += arrow[0].length;
+			const params = (arrow[1] ?? arrow[2] ?? '')
+				.split(',')
+				.map((param) => param.trim())
+				.filter(Boolean);
+			if (eat('{')) fail('Arrow functions can only have expression bodies', index - 1);
+			return {type: 'arrow', position, params, body: parseExpression()};
+		}
+
+		return parseConditional();
+	}
+
+	function parseConditional(): Node {
+		const test = parseBinary(0);
+		skipWhitespace();
+		const position = index;
+
+		if (template[index] === '?' && template[index + 1] !== '?' && template[index + 1] !== '.') {
+			index++;
+			const consequent = parseExpression();
+			expect(':');
+			const alternate = parseExpression();
+			return {type: 'conditional', position, test, consequent, alternate};
+		}
+
+		return test;
+	}
+
+	function parseBinary(level: number): Node {
+		const operators = BINARY_OPERATORS[level];
+		if (!operators) return parseUnary();
+
+		let left = parseBinary(level + 1);
+
+		while (true) {
+			skipWhitespace();
+			const position = index;
+			const operator = operators.find(
+				(operator) =>
+					template.startsWith(operator, index) &&
+					// Don't confuse `**` with `*`, and `=>` or `=` with comparisons
+					!(operator === '*' && template[index + 1] === '*') &&
+					!(operator === '<' && template[index + 1] === '=') &&
+					!(operator === '>' && template[index + 1] === '=')
+			);
+			if (!operator) return left;
+			index += operator.length;
+
+			// Exponentiation is right associative
+			const right = operator === '**' ? parseBinary(level) : parseBinary(level + 1);
+			left = {type: 'binary', position, operator, left, right};
+		}
+	}
+
+	function parseUnary(): Node {
+		skipWhitespace();
+		const position = index;
+
+		for (const operator of ['!', '-', '+']) {
+			if (template[index] === operator && template[index + 1] !== operator && template[index + 1] !== '=') {
+				index++;
+				return {type: 'unary', position, operator, argument: parseUnary()};
+			}
+		}
+
+		const identifier = match(IDENTIFIER);
+		if (identifier?.[0] === 'typeof') {
+			index += identifier[0].length;
+			return {type: 'unary', position, operator: 'typeof', argument: parseUnary()};
+		}
+
+		return parsePostfix();
+	}
+
+	function parsePostfix(): Node {
+		let node = parsePrimary();
+
+		while (true) {
+			skipWhitespace();
+			const position = index;
+			const optional = eat('?.');
+
+			if (eat('[')) {
+				const property = parseExpression();
+				expect(']');
+				node = {type: 'member', position, object: node, property, optional};
+			} else if (eat('(')) {
+				node = {type: 'call', position, callee: node, args: parseList(')'), optional};
+			} else if (optional || eat('.')) {
+				const identifier = match(IDENTIFIER);
+				if (!identifier) return fail('Expected property name');
+				const property: Node = {type: 'literal', position: index, value: identifier[0]};
+				index += identifier[0].length;
+				node = {type: 'member', position: property.position, object: node, property, optional};
+			} else {
+				return node;
+			}
+		}
+	}
+
+	function parseList(end: string) {
+		const items: Node[] = [];
+
+		while (!eat(end)) {
+			if (items.length > 0) expect(',');
+			// Trailing comma
+			if (eat(end)) break;
+			if (peek('...')) fail('Spread syntax is not allowed');
+			items.push(parseExpression());
+		}
+
+		return items;
+	}
+
+	/**
+	 * Parses object literal properties, supports shorthand `{foo}` properties.
+	 */
+	function parseProperties() {
+		const properties: [string, Node][] = [];
+
+		while (!eat('}')) {
+			if (properties.length > 0) expect(',');
+			// Trailing comma
+			if (eat('}')) break;
+			if (peek('...')) fail('Spread syntax is not allowed');
+
+			const position = index;
+			const identifier = match(IDENTIFIER);
+			let key: string;
+			let value: Node | null = null;
+
+			if (identifier) {
+				key = identifier[0];
+				index += key.length;
+				if (!peek(':')) value = {type: 'identifier', position, name: key};
+			} else {
+				const literal = parsePrimary();
+				if (literal.type !== 'literal' || !['string', 'number'].includes(typeof literal.value)) {
+					return fail('Expected property name', position);
+				}
+				key = `${literal.value}`;
+			}
+
+			if (BLOCKED_PROPERTIES.has(key)) fail(`Access to "${key}" is not allowed`, position);
+			if (!value) {
+				expect(':');
+				value = parseExpression();
+			}
+			properties.push([key, value]);
+		}
+
+		return properties;
+	}
+
+	function parsePrimary(): Node {
+		skipWhitespace();
+		const position = index;
+		const char = template[index];
+
+		if (char === undefined) return fail('Unexpected end of template');
+
+		if (char === '(') {
+			index++;
+			const node = parseExpression();
+			expect(')');
+			return node;
+		}
+
+		if (char === '[') {
+			index++;
+			return {type: 'array', position, elements: parseList(']')};
+		}
+
+		if (char === '{') {
+			index++;
+			return {type: 'object', position, properties: parseProperties()};
+		}
+
+		if (char === '`') {
+			index++;
+			return parseTemplateBody(true);
+		}
+
+		if (char === '"' || char === "'") {
+			index++;
+			let value = '';
+			while (template[index] !== char) {
+				if (index >= template.length || template[index] === '\n') fail('Unterminated string', position);
+				if (template[index] === '\\') {
+					index++;
+					value += readEscape();
+				} else {
+					value += template[index++];
+				}
+			}
+			index++;
+			return {type: 'literal', position, value};
+		}
+
+		const number = match(NUMBER);
+		if (number) {
+			index += number[0].length;
+			return {type: 'literal', position, value: Number(number[0])};
+		}
+
+		const identifier = match(IDENTIFIER);
+		if (identifier) {
+			const name = identifier[0];
+			if (FORBIDDEN_KEYWORDS.has(name)) fail(`"${name}" is not allowed`);
+			index += name.length;
+			switch (name) {
+				case 'true':
+					return {type: 'literal', position, value: true};
+				case 'false':
+					return {type: 'literal', position, value: false};
+				case 'null':
+					return {type: 'literal', position, value: null};
+				case 'undefined':
+					return {type: 'literal', position, value: undefined};
+			}
+			return {type: 'identifier', position, name};
+		}
+
+		return fail(`Unexpected "${char}"`);
+	}
+
+	return parseTemplateBody(false);
+}
+
+/**
+ * Marks end of an optional chain that hit a nullish value.
+ */
+const SHORT_CIRCUIT = Symbol('shortCircuit');
+
+function evaluateTemplate(root: Node, variables: Record<string, unknown>, timeLimit: number) {
+	const deadline = Date.now() + timeLimit;
+	let steps = 0;
+	let depth = 0;
+
+	const fail = (message: string, position: number): never => {
+		throw new SafeTemplateError(message, position);
+	};
+
+	const checkString = (value: unknown, position: number) => {
+		if (typeof value === 'string' && value.length > MAX_STRING_LENGTH) fail('String is too long', position);
+		return value;
+	};
+
+	function lookup(name: string, scope: Scope | null, position: number) {
+		for (let current = scope; current; current = current.parent) {
+			if (current.locals.has(name)) return current.locals.get(name);
+		}
+		if (Object.prototype.hasOwnProperty.call(variables, name)) return variables[name];
+		return fail(`${name} is not defined`, position);
+	}
+
+	function evaluate(node: Node, scope: Scope | null): unknown {
+		if (++steps % 256 === 0 && Date.now() > deadline) fail('Template took too long to evaluate', node.position);
+
+		switch (node.type) {
+			case 'literal':
+				return node.value;
+
+			case 'template': {
+				let result = node.quasis[0]!;
+				node.expressions.forEach((expression, index) => {
+					result += `${evaluate(expression, scope)}${node.quasis[index + 1]}`;
+					checkString(result, expression.position);
+				});
+				return result;
+			}
+
+			case 'identifier':
+				return lookup(node.name, scope, node.position);
+
+			case 'member':
+			case 'call': {
+				const value = evaluateChain(node, scope);
+				return value === SHORT_CIRCUIT ? undefined : value;
+			}
+
+			case 'unary': {
+				const value = evaluate(node.argument, scope);
+				switch (node.operator) {
+					case '!':
+						return !value;
+					case '-':
+						return -(value as any);
+					case '+':
+						return +(value as any);
+					default:
+						return typeof value;
+				}
+			}
+
+			case 'binary': {
+				const left = evaluate(node.left, scope) as any;
+				switch (node.operator) {
+					case '&&':
+						return left && evaluate(node.right, scope);
+					case '||':
+						return left || evaluate(node.right, scope);
+					case '??':
+						return left ?? evaluate(node.right, scope);
+				}
+				const right = evaluate(node.right, scope) as any;
+				switch (node.operator) {
+					case '+':
+						return checkString(left + right, node.position);
+					case '-':
+						return left - right;
+					case '*':
+						return left * right;
+					case '/':
+						return left / right;
+					case '%':
+						return left % right;
+					case '**':
+						return left ** right;
+					case '===':
+						return left === right;
+					case '!==':
+						return left !== right;
+					case '==':
+						return left == right;
+					case '!=':
+						return left != right;
+					case '<':
+						return left < right;
+					case '>':
+						return left > right;
+					case '<=':
+						return left <= right;
+					default:
+						return left >= right;
+				}
+			}
+
+			case 'conditional':
+				return evaluate(node.test, scope) ? evaluate(node.consequent, scope) : evaluate(node.alternate, scope);
+
+			case 'array':
+				return node.elements.map((element) => evaluate(element, scope));
+
+			case 'object': {
+				const object: Record<string, unknown> = {};
+				for (const [key, value] of node.properties) object[key] = evaluate(value, scope);
+				return object;
+			}
+
+			case 'arrow':
+				return (...args: unknown[]) => {
+					if (++depth > MAX_CALL_DEPTH) fail('Functions are nested too deeply', node.position);
+					try {
+						const locals = new Map(node.params.map((param, index) => [param, args[index]]));
+						return evaluate(node.body, {locals, parent: scope});
+					} finally {
+						depth--;
+					}
+				};
+		}
+	}
+
+	function evaluateChain(node: Node, scope: Scope | null): unknown {
+		if (node.type === 'member') {
+			const object = evaluateChain(node.object, scope);
+			if (object === SHORT_CIRCUIT || (node.optional && object == null)) return SHORT_CIRCUIT;
+			return getProperty(object, evaluate(node.property, scope), node.position);
+		}
+
+		if (node.type === 'call') {
+			const args = () => node.args.map((arg) => evaluate(arg, scope));
+
+			if (node.callee.type === 'member') {
+				const object = evaluateChain(node.callee.object, scope);
+				if (object === SHORT_CIRCUIT || (node.callee.optional && object == null)) return SHORT_CIRCUIT;
+				const name = evaluate(node.callee.property, scope);
+				return checkString(callMethod(object, name, args(), node.callee.position), node.position);
+			}
+
+			const callee = evaluateChain(node.callee, scope);
+			if (callee === SHORT_CIRCUIT || (node.optional && callee == null)) return SHORT_CIRCUIT;
+			if (typeof callee !== 'function') return fail(`${describe(node.callee)} is not a function`, node.position);
+			return checkString(callee(...args()), node.position);
+		}
+
+		return evaluate(node, scope);
+	}
+
+	function getProperty(object: any, key: unknown, position: number): unknown {
+		if (typeof key !== 'string' && typeof key !== 'number') return fail(`Invalid property name`, position);
+		const name = `${key}`;
+
+		if (BLOCKED_PROPERTIES.has(name)) fail(`Access to "${name}" is not allowed`, position);
+		if (object == null) fail(`Cannot read properties of ${object} (reading "${name}")`, position);
+		if (isAnyValue(object)) return object[name];
+
+		if (typeof object === 'string' || Array.isArray(object)) {
+			if (name === 'length' || /^\d+$/.test(name)) return object[name as any];
+		} else if (isPlainObject(object)) {
+			return Object.prototype.hasOwnProperty.call(object, name) ? object[name] : undefined;
+		}
+
+		return fail(`Property "${name}" is not allowed here`, position);
+	}
+
+	function callMethod(object: any, name: unknown, args: unknown[], position: number): unknown {
+		if (typeof name !== 'string') return fail(`Invalid method name`, position);
+		if (BLOCKED_PROPERTIES.has(name)) fail(`Access to "${name}" is not allowed`, position);
+		if (object == null) fail(`Cannot read properties of ${object} (reading "${name}")`, position);
+		if (isAnyValue(object)) return object[name](...args);
+
+		let isAllowed = false;
+
+		if (typeof object === 'string') {
+			isAllowed = STRING_METHODS.has(name);
+			// Don't let strings grow before they can be checked
+			const resultLength =
+				name === 'repeat'
+					? object.length * Number(args[0])
+					: name === 'padStart' || name === 'padEnd'
+					? Number(args[0])
+					: 0;
+			if (resultLength > MAX_STRING_LENGTH) fail('String is too long', position);
+		} else if (typeof object === 'number') {
+			isAllowed = NUMBER_METHODS.has(name);
+		} else if (Array.isArray(object)) {
+			isAllowed = ARRAY_METHODS.has(name);
+		} else if (dayjs.isDayjs(object)) {
+			isAllowed = DAYJS_METHODS.has(name);
+		} else if (isPlainObject(object)) {
+			isAllowed = Object.prototype.hasOwnProperty.call(object, name) && typeof object[name] === 'function';
+		}
+
+		if (!isAllowed) fail(`Method "${name}" is not allowed`, position);
+
+		return object[name](...args);
+	}
+
+	return evaluate(root, null);
+}
+
+const isAnyValue = (value: any) =>
+	(typeof value === 'object' || typeof value === 'function') && value !== null && value[ANY_VALUE] === true;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (typeof value !== 'object' || value === null) return false;
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
+
+function describe(node: Node): string {
+	if (node.type === 'identifier') return node.name;
+	if (node.type === 'member' && node.property.type === 'literal')
+		return `${describe(node.object)}.${node.property.value}`;
+	return 'Expression';
+}
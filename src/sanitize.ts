@@ -0,0 +1,121 @@
+import * as Path from 'path';
+import {getExtname} from './extensions';
+
+/**
+ * Filesystem rules to sanitize against:
+ * - `posix` - only control characters are replaced
+ * - `windows` - also `<>:"/\|?*` characters, trailing dots and spaces, and
+ *   reserved names such as `CON` or `NUL`
+ * - `portable` - names valid on all of the above
+ */
+export type SanitizeProfile = 'posix' | 'windows' | 'portable';
+
+export interface SanitizeOptions {
+	profile: SanitizeProfile;
+	// What to replace invalid characters with
+	replacement?: string;
+	// Max length of a path segment in bytes
+	maxBytes?: number;
+	// Bytes left free in the filename for incrementer suffix
+	reserveBytes?: number;
+	// Multi-part extensions kept whole when filename is truncated
+	compoundExtensions?: string[];
+}
+
+const IS_WINDOWS = process.platform === 'win32';
+const CONTROL_CHARS = /[\x00-\x1f\x7f]/g;
+const WINDOWS_CHARS = /[<>:"/\\|?*]/g;
+const WINDOWS_RESERVED_NAME = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+const SEPARATORS = IS_WINDOWS ? /[\\\/]/g : /\//g;
+
+/**
+ * Replaces characters a value can't bring into a path, including path
+ * separators, so that variables can't split or escape the segment template
+ * puts them in. Rules of whole segments are left to `sanitizePath()`.
+ */
+export function sanitizeValue(value: string, {profile, replacement = '_'}: SanitizeOptions) {
+	replacement = cleanReplacement(replacement, profile);
+	const result = value.replace(CONTROL_CHARS, replacement).replace(SEPARATORS, replacement);
+	return profile !== 'posix' ? result.replace(WINDOWS_CHARS, replacement) : result;
+}
+
+/**
+ * Sanitizes a single path segment (file or directory name).
+ *
+ * `extension` is preserved when the segment has to be truncated.
+ */
+export function sanitizeSegment(
+	segment: string,
+	{profile, replacement = '_', maxBytes = 255, reserveBytes = 0}: SanitizeOptions,
+	extension = ''
+) {
+	if (!segment || segment === '.' || segment === '..') return segment;
+
+	const isWindows = profile !== 'posix';
+	replacement = cleanReplacement(replacement, profile);
+
+	let result = segment.replace(CONTROL_CHARS, replacement).replace(/\//g, replacement);
+
+	if (isWindows) {
+		result = result.replace(WINDOWS_CHARS, replacement).replace(/[. ]+$/, '');
+		result = result.replace(WINDOWS_RESERVED_NAME, (_, name, rest = '') => `${name}${replacement || '_'}${rest}`);
+		if (!result) result = replacement || '_';
+	}
+
+	// Truncate while keeping the extension
+	const limit = Math.max(1, maxBytes - reserveBytes);
+	if (byteLength(result) > limit) {
+		if (!extension || !result.endsWith(extension) || byteLength(extension) >= limit) extension = '';
+		const name = truncateBytes(result.slice(0, result.length - extension.length), limit - byteLength(extension));
+		result = `${isWindows ? name.replace(/[. ]+$/, '') : name}${extension}`;
+	}
+
+	return result;
+}
+
+/**
+ * Sanitizes all segments of a path, except its root. Last segment is treated
+ * as a filename, and gets room reserved for incrementer suffix.
+ */
+export function sanitizePath(path: string, options: SanitizeOptions) {
+	const {root} = Path.parse(path);
+	const segments = path.slice(root.length).split(IS_WINDOWS ? /[\\\/]/ : '/');
+
+	return (
+		root +
+		segments
+			.map((segment, index) => {
+				const isLast = index === segments.length - 1;
+				return isLast
+					? sanitizeSegment(segment, options, getExtname(segment, options.compoundExtensions))
+					: sanitizeSegment(segment, {...options, reserveBytes: 0});
+			})
+			.join(Path.sep)
+	);
+}
+
+/**
+ * Replacement itself can't contain invalid characters.
+ */
+function cleanReplacement(replacement: string, profile: SanitizeProfile) {
+	replacement = replacement.replace(CONTROL_CHARS, '').replace(SEPARATORS, '');
+	return profile !== 'posix' ? replacement.replace(WINDOWS_CHARS, '') : replacement;
+}
+
+const byteLength = (value: string) => Buffer.byteLength(value, 'utf8');
+
+/**
+ * Truncates string to a max byte length without breaking multi-byte characters.
+ */
+function truncateBytes(value: string, maxBytes: number) {
+	let result = '';
+	let bytes = 0;
+
+	for (const char of value) {
+		bytes += byteLength(char);
+		if (bytes > maxBytes) break;
+		result += char;
+	}
+
+	return result;
+}
@@ -0,0 +1,220 @@
+import * as Path from 'path';
+import * as OS from 'os';
+import {promises as FSP} from 'fs';
+import {TemplateError} from 'expand-template-literal';
+import {toPathKey} from './utils';
+import {withFileLock, writeFileAtomic} from './store';
+
+export interface SequenceOptions {
+	// Minimum number of digits, numbers are zero padded into strings
+	pad?: number;
+	// First value of a new counter
+	start?: number;
+	// `directory` counters are separate for each directory templates resolve from
+	scope?: 'global' | 'directory';
+}
+
+export interface ResetSequenceOptions {
+	store?: string;
+	directory?: string;
+}
+
+export type SequenceFunction = (nameOrOptions?: string | SequenceOptions, options?: SequenceOptions) => number | string;
+
+/**
+ * Last issued values, stored as:
+ * ```
+ * {"scan": {"global": 12, "directories": {"/path/to/dir": 3}}}
+ * ```
+ */
+type Counters = Record<string, {global?: number; directories?: Record<string, number | undefined>}>;
+
+/**
+ * Value issued by a counter, and the one it replaced, if any.
+ */
+interface IssuedValue {
+	name: string;
+	scope: 'global' | 'directory';
+	previous: number | undefined;
+	value: number;
+}
+
+const DEFAULT_NAME = 'default';
+
+export const DEFAULT_SEQUENCE_STORE = Path.join(getStateDirectory(), 'save-as-path', 'sequences.json');
+
+function getStateDirectory() {
+	const home = OS.homedir();
+	switch (process.platform) {
+		case 'win32':
+			return process.env.APPDATA || Path.join(home, 'AppData', 'Roaming');
+		case 'darwin':
+			return Path.join(home, 'Library', 'Application Support');
+		default:
+			return process.env.XDG_STATE_HOME || Path.join(home, '.local', 'state');
+	}
+}
+
+/**
+ * Runs `fn` with a `seq()` template function backed by the counters store.
+ * Store is locked only while `fn` runs, and issued values are saved right
+ * after, so that parallel saves never get the same ones.
+ *
+ * Values that end up unused are given back with `release()`. Counters that
+ * issued a later value since are left with a gap.
+ *
+ * With `dryRun` enabled, values are previewed without being saved.
+ */
+export async function withSequences<T>(
+	{store = DEFAULT_SEQUENCE_STORE, directory, dryRun = false}: {store?: string; directory: string; dryRun?: boolean},
+	fn: (seq: SequenceFunction) => T | Promise<T>
+): Promise<{result: T; release: () => Promise<void>}> {
+	if (dryRun) return {result: await fn(makeSequence(await readCounters(store), directory)), release: async () => {}};
+
+	const issued: IssuedValue[] = [];
+	const result = await withFileLock(store, async () => {
+		const counters = await readCounters(store);
+		const result = await fn(makeSequence(counters, directory, (value) => issued.push(value)));
+		if (issued.length > 0) await writeCounters(store, counters);
+		return result;
+	});
+
+	const release = async () => {
+		const values = issued.splice(0);
+		if (values.length === 0) return;
+
+		await withFileLock(store, async () => {
+			const counters = await readCounters(store);
+			const directoryKey = toPathKey(directory);
+			let isDirty = false;
+
+			for (const {name, scope, previous, value} of values) {
+				const counter = counters[name];
+				if (scope === 'global' && counter?.global === value) {
+					counter.global = previous;
+					isDirty = true;
+				} else if (scope === 'directory' && counter?.directories?.[directoryKey] === value) {
+					counter.directories[directoryKey] = previous;
+					isDirty = true;
+				}
+			}
+
+			if (isDirty) await writeCounters(store, counters);
+		});
+	};
+
+	return {result, release};
+}
+
+/**
+ * Resets counters, so that they start over. Without `name`, all counters are
+ * reset. Without `directory`, counters of all scopes are reset.
+ */
+export async function resetSequence(
+	name?: string,
+	{store = DEFAULT_SEQUENCE_STORE, directory}: ResetSequenceOptions = {}
+) {
+	await withFileLock(store, async () => {
+		const counters = await readCounters(store);
+		const directoryKey = directory != null ? toPathKey(Path.resolve(directory)) : null;
+
+		for (const counterName of name != null ? [name] : Object.keys(counters)) {
+			const counter = counters[counterName];
+			if (!counter) continue;
+			if (directoryKey == null) {
+				delete counters[counterName];
+			} else {
+				delete counter.directories?.[directoryKey];
+			}
+		}
+
+		await writeCounters(store, counters);
+	});
+}
+
+/**
+ * `seq()` stub for validation, returns start values without touching the
+ * store.
+ */
+export function makeSequenceStub(): SequenceFunction {
+	return makeSequence(Object.create(null), '/mock/path');
+}
+
+/**
+ * Creates `seq()` function that issues next values of `counters`. Calling it
+ * multiple times with the same counter returns the same value, as it's
+ * meant to increment once per saved file.
+ */
+function makeSequence(
+	counters: Counters,
+	directory: string,
+	onIssue?: (issued: IssuedValue) => void
+): SequenceFunction {
+	const issued = new Map<string, number>();
+	const directoryKey = toPathKey(directory);
+
+	return (nameOrOptions, maybeOptions) => {
+		const [name, options] =
+			typeof nameOrOptions === 'string' || nameOrOptions == null
+				? [nameOrOptions ?? DEFAULT_NAME, maybeOptions ?? {}]
+				: [DEFAULT_NAME, nameOrOptions];
+		const {pad = 0, start = 1, scope = 'global'} = validateSequenceOptions(name, options);
+		const issuedKey = `${scope}:${name}`;
+		let value = issued.get(issuedKey);
+
+		if (value == null) {
+			const counter = counters[name] ?? (counters[name] = {});
+			const last = scope === 'global' ? counter.global : counter.directories?.[directoryKey];
+			value = last != null ? last + 1 : start;
+			if (scope === 'global') counter.global = value;
+			else counter.directories = {...counter.directories, [directoryKey]: value};
+			issued.set(issuedKey, value);
+			onIssue?.({name, scope, previous: last, value});
+		}
+
+		return pad > 0 ? `${value}`.padStart(pad, '0') : value;
+	};
+}
+
+function validateSequenceOptions(name: unknown, options: unknown): SequenceOptions {
+	if (typeof name !== 'string' || !name) throw new TemplateError(`seq() name has to be a non-empty string.`);
+	if (typeof options !== 'object' || options == null) throw new TemplateError(`seq() options have to be an object.`);
+	const {pad, start, scope} = options as SequenceOptions;
+	if (pad != null && !(Number.isInteger(pad) && pad >= 0)) {
+		throw new TemplateError(`seq() pad has to be a non-negative integer, received "${pad}".`);
+	}
+	if (start != null && !Number.isInteger(start)) {
+		throw new TemplateError(`seq() start has to be an integer, received "${start}".`);
+	}
+	if (scope != null && scope !== 'global' && scope !== 'directory') {
+		throw new TemplateError(`seq() scope has to be "global" or "directory", received "${scope}".`);
+	}
+	return {pad, start, scope};
+}
+
+async function readCounters(store: string): Promise<Counters> {
+	let json: string;
+
+	try {
+		json = await FSP.readFile(store, 'utf8');
+	} catch (error) {
+		if ((error as any)?.code === 'ENOENT') return Object.create(null);
+		throw error;
+	}
+
+	try {
+		const counters = JSON.parse(json);
+		if (typeof counters !== 'object' || counters == null || Array.isArray(counters)) throw new Error();
+		// Counter names are user input, prototype-less object keeps names like `__proto__` as regular keys
+		return Object.assign(Object.create(null), counters);
+	} catch (error) {
+		throw new Error(`Sequence store "${store}" is corrupted.`);
+	}
+}
+
+/**
+ * Writes counters so that readers never see a partially written store.
+ */
+async function writeCounters(store: string, counters: Counters) {
+	await writeFileAtomic(store, JSON.stringify(counters, null, '\t'));
+}
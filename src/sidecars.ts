@@ -0,0 +1,268 @@
+import * as Path from 'path';
+import {promises as FSP} from 'fs';
+import {escapeStringRegexp, isSamePath, toPathKey} from './utils';
+import {splitExtension} from './extensions';
+import {isSameFile} from './identity';
+import {moveTmpPath} from './move';
+import {trash, TrashLocation} from './trash';
+import {stagePath, discardStaged, rollbackStaged, StagedPath} from './staging';
+import {JournalBackup} from './journal';
+
+/**
+ * File next to an input that belongs to it, such as `.xmp` or `.srt`, and
+ * path it gets next to the output.
+ */
+export interface Sidecar {
+	path: string;
+	outputPath: string;
+}
+
+/**
+ * Sidecar that has been found next to an input, but not placed next to the
+ * output yet.
+ */
+export interface FoundSidecar {
+	path: string;
+	// Rest of the name after input's filename, including the leading dot
+	suffix: string;
+	// Input's extension the suffix starts with, empty when it doesn't
+	extname: string;
+}
+
+export interface FindSidecarsOptions {
+	// Extensions (`xmp`), or glob patterns (`*.srt`)
+	patterns: string[];
+	compoundExtensions?: string[];
+}
+
+export interface PlaceSidecarsOptions {
+	compoundExtensions?: string[];
+	// Directory outputs have no extension
+	isDirectory?: boolean;
+}
+
+/**
+ * Finds sidecars of inputs.
+ *
+ * Sidecar is a file in the same directory as its input, whose name is the
+ * input's filename or basename, followed by a suffix that matches one of the
+ * patterns. Extensions match only a suffix made of them (`photo.xmp`, or
+ * `photo.jpg.xmp`), glob patterns match the whole suffix including the
+ * leading dot (`*.srt` matches `.srt`, and `.en.srt`).
+ */
+export async function findSidecars(
+	inputPaths: string[],
+	{patterns, compoundExtensions}: FindSidecarsOptions
+): Promise<FoundSidecar[]> {
+	if (patterns.length === 0) return [];
+
+	const matchers = patterns.map(makeSuffixMatcher);
+	const sidecars: FoundSidecar[] = [];
+
+	for (const inputPath of inputPaths) {
+		const dirname = Path.dirname(inputPath);
+		const {filename, extname} = splitExtension(inputPath, compoundExtensions);
+		let names: string[];
+
+		try {
+			names = (await FSP.readdir(dirname)).sort();
+		} catch (error) {
+			if ((error as any)?.code === 'ENOENT') continue;
+			throw error;
+		}
+
+		for (const name of names) {
+			const path = Path.join(dirname, name);
+			const isInput = inputPaths.some((otherPath) => isSamePath(otherPath, path));
+			if (isInput || !name.startsWith(`${filename}.`)) continue;
+
+			const suffix = name.slice(filename.length);
+			const followsBasename = extname !== '' && suffix.toLowerCase().startsWith(`${extname.toLowerCase()}.`);
+			if (!matchers.some((matches) => matches(suffix, followsBasename ? extname : ''))) continue;
+			if (!(await FSP.stat(path)).isFile()) continue;
+
+			sidecars.push({path, suffix, extname: followsBasename ? extname : ''});
+		}
+	}
+
+	return sidecars;
+}
+
+/**
+ * Maps found sidecars next to the output.
+ *
+ * Sidecars are renamed to follow the output name, keeping their suffix. When
+ * suffix starts with the input's extension, it's replaced with the output's
+ * extension. Sidecars of different inputs that would end up on the same path
+ * are all returned, the first one is expected to win.
+ */
+export function placeSidecars(
+	sidecars: FoundSidecar[],
+	outputPath: string,
+	{compoundExtensions, isDirectory = false}: PlaceSidecarsOptions = {}
+): Sidecar[] {
+	const output = isDirectory
+		? {filename: Path.basename(outputPath), extname: ''}
+		: splitExtension(outputPath, compoundExtensions);
+	const outputDirname = Path.dirname(outputPath);
+
+	return sidecars.map(({path, suffix, extname}) => {
+		const outputSuffix = extname ? `${output.extname}${suffix.slice(extname.length)}` : suffix;
+		return {path, outputPath: Path.join(outputDirname, `${output.filename}${outputSuffix}`)};
+	});
+}
+
+/**
+ * Unique paths sidecars end up on.
+ */
+export function getSidecarPaths(sidecars: Sidecar[]) {
+	const paths = new Map<string, string>();
+	for (const {outputPath} of sidecars) {
+		const key = toPathKey(outputPath);
+		if (!paths.has(key)) paths.set(key, outputPath);
+	}
+	return [...paths.values()];
+}
+
+/**
+ * Copies sidecars next to the output, or moves them there when originals are
+ * being deleted. When originals are trashed, sidecars are copied, and their
+ * originals trashed as well. Sidecars that lost their spot to a sidecar of
+ * another input are only disposed of.
+ *
+ * Files on sidecar paths are staged aside first, except for `placeholders`
+ * that reserve them, and if anything fails, everything is rolled back. Once
+ * all sidecars are in place, staged files are discarded, and originals
+ * disposed of. Originals that fail to be trashed are kept.
+ *
+ * With `keepBackups` enabled, originals, and files on sidecar paths, are only
+ * staged aside, and returned as backups.
+ *
+ * Returns output paths of sidecars, which of them have been created, and
+ * originals that have been disposed of.
+ */
+export async function transferSidecars(
+	sidecars: Sidecar[],
+	{
+		method,
+		keepBackups = false,
+		placeholders = [],
+		trashLocations,
+		onDelete,
+	}: {
+		method: 'copy' | 'delete' | 'trash';
+		keepBackups?: boolean;
+		// Empty files reserving sidecar paths, which can be simply replaced
+		placeholders?: string[];
+		// Trash directories resolved in advance, by path keys of sidecars
+		trashLocations?: Map<string, TrashLocation>;
+		onDelete?: (path: string) => void;
+	}
+) {
+	const outputPaths: string[] = [];
+	const deleted: string[] = [];
+	const backups: JournalBackup[] = [];
+	const overwritten: StagedPath[] = [];
+	const transferred: {path: string; outputPath: string; isMoved: boolean}[] = [];
+	// Originals to be disposed of, moved ones are already gone
+	const originals: {path: string; isMoved: boolean}[] = [];
+	const placeholderKeys = new Set(placeholders.map(toPathKey));
+	const takenPaths = new Set<string>();
+
+	try {
+		for (const {path, outputPath} of sidecars) {
+			const isTaken = takenPaths.has(toPathKey(outputPath));
+			const isInPlace = await isSameFile(path, outputPath);
+			takenPaths.add(toPathKey(outputPath));
+
+			if (!isTaken) {
+				outputPaths.push(outputPath);
+				if (isInPlace) continue;
+				await FSP.mkdir(Path.dirname(outputPath), {recursive: true});
+				if (!placeholderKeys.has(toPathKey(outputPath))) {
+					const item = await stagePath(outputPath);
+					if (item) overwritten.push(item);
+				}
+				const isMoved = method === 'delete' && !keepBackups;
+				if (isMoved) await moveTmpPath(path, outputPath);
+				else await FSP.copyFile(path, outputPath);
+				transferred.push({path, outputPath, isMoved});
+				if (isMoved) {
+					originals.push({path, isMoved});
+					continue;
+				}
+			}
+
+			if (method !== 'copy' && !isInPlace) originals.push({path, isMoved: false});
+		}
+	} catch (error) {
+		// Moved originals go back, copies are removed, and staged files restored
+		const failed: string[] = [];
+		for (const {path, outputPath, isMoved} of transferred.reverse()) {
+			try {
+				if (isMoved) await moveTmpPath(outputPath, path);
+				else await FSP.rm(outputPath, {force: true});
+			} catch {
+				failed.push(`"${isMoved ? path : outputPath}"`);
+			}
+		}
+		for (const {path, stagedPath} of await rollbackStaged(overwritten)) {
+			failed.push(`"${path}" (staged at "${stagedPath}")`);
+		}
+		if (failed.length > 0 && error instanceof Error) error.message += ` Failed to restore: ${failed.join(', ')}.`;
+		throw error;
+	}
+
+	for (const item of overwritten) {
+		if (keepBackups) backups.push({path: item.path, backupPath: item.stagedPath, kind: 'overwritten'});
+		else await discardStaged(item);
+	}
+
+	for (const {path, isMoved} of originals) {
+		if (isMoved) {
+			// Already moved to the sidecar path
+		} else if (keepBackups) {
+			const item = await stagePath(path);
+			if (item) backups.push({path, backupPath: item.stagedPath, kind: 'original'});
+		} else if (method === 'trash') {
+			try {
+				await trash(path, {location: trashLocations?.get(toPathKey(path))});
+			} catch (error) {
+				continue;
+			}
+		} else {
+			await FSP.rm(path, {force: true});
+		}
+		deleted.push(path);
+		onDelete?.(path);
+	}
+
+	return {outputPaths, created: transferred.map(({outputPath}) => outputPath), deleted, backups};
+}
+
+/**
+ * Makes a matcher of sidecar suffixes. Extensions match the suffix on their
+ * own, or after the input's extension. Glob patterns support `*`, `?`, and
+ * `{a,b}`, and match case insensitively.
+ */
+function makeSuffixMatcher(pattern: string) {
+	if (!/[*?{]/.test(pattern)) {
+		const extname = `.${pattern.replace(/^\./, '')}`.toLowerCase();
+		return (suffix: string, inputExtname: string) => {
+			suffix = suffix.toLowerCase();
+			return suffix === extname || suffix === `${inputExtname.toLowerCase()}${extname}`;
+		};
+	}
+
+	const source = pattern.replace(/\{([^}]*)\}|\*|\?|[^*?{]+/g, (match, alternatives?: string) =>
+		alternatives != null
+			? `(?:${alternatives.split(',').map(escapeStringRegexp).join('|')})`
+			: match === '*'
+			? '.*'
+			: match === '?'
+			? '.'
+			: escapeStringRegexp(match)
+	);
+	const regExp = new RegExp(`^${source}$`, 'i');
+	return (suffix: string) => regExp.test(suffix);
+}
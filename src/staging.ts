@@ -0,0 +1,58 @@
+import * as Path from 'path';
+import {promises as FSP} from 'fs';
+import {pathIsFree, uid} from './utils';
+
+/**
+ * A file or directory that has been moved aside to a hidden sibling path, so
+ * that it can be either restored, or discarded once it's no longer needed.
+ */
+export interface StagedPath {
+	path: string;
+	stagedPath: string;
+}
+
+/**
+ * Moves whatever is on `path` to a hidden sibling path.
+ *
+ * Returns `null` when there is nothing to stage.
+ */
+export async function stagePath(path: string): Promise<StagedPath | null> {
+	if (await pathIsFree(path)) return null;
+	const stagedPath = Path.join(Path.dirname(path), `.${Path.basename(path)}.${uid(6)}.staged`);
+	await FSP.rename(path, stagedPath);
+	return {path, stagedPath};
+}
+
+/**
+ * Moves staged item back to its original path, replacing anything that might
+ * have been created there in the meantime.
+ */
+export async function restoreStaged({path, stagedPath}: StagedPath) {
+	await FSP.rm(path, {recursive: true, force: true});
+	await FSP.rename(stagedPath, path);
+}
+
+/**
+ * Permanently deletes staged item.
+ */
+export async function discardStaged({stagedPath}: StagedPath) {
+	await FSP.rm(stagedPath, {recursive: true, force: true});
+}
+
+/**
+ * Restores all staged items in reverse order. Restoration errors don't stop
+ * the process, they are collected and returned.
+ */
+export async function rollbackStaged(items: StagedPath[]) {
+	const failed: StagedPath[] = [];
+
+	for (const item of [...items].reverse()) {
+		try {
+			await restoreStaged(item);
+		} catch (error) {
+			failed.push(item);
+		}
+	}
+
+	return failed;
+}
@@ -0,0 +1,152 @@
+import * as Path from 'path';
+import {promises as FSP} from 'fs';
+import {toPathKey, uid} from './utils';
+
+const LOCK_TIMEOUT = 10000;
+// Locks not refreshed for this long were abandoned by crashed processes
+const STALE_LOCK_AGE = 5000;
+const LOCK_REFRESH_INTERVAL = STALE_LOCK_AGE / 4;
+
+/**
+ * Operations queued per file in this process, so that they don't compete for
+ * the lock file with each other.
+ */
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * Writes contents into a temporary sibling file, and renames it over the
+ * path, so that readers never see a partially written file.
+ */
+export async function writeFileAtomic(path: string, contents: string) {
+	const tmpPath = Path.join(Path.dirname(path), `.${Path.basename(path)}.${uid(6)}.tmp`);
+
+	try {
+		const handle = await FSP.open(tmpPath, 'w');
+		try {
+			await handle.writeFile(contents);
+			await handle.sync();
+		} finally {
+			await handle.close();
+		}
+		await FSP.rename(tmpPath, path);
+	} catch (error) {
+		await FSP.rm(tmpPath, {force: true});
+		throw error;
+	}
+}
+
+/**
+ * Runs `fn` while holding an exclusive lock of the file, across processes.
+ */
+export async function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+	const key = toPathKey(Path.resolve(path));
+	const previous = queues.get(key) || Promise.resolve();
+	const current = previous
+		.catch(() => {})
+		.then(async () => {
+			const lockPath = `${path}.lock`;
+			await FSP.mkdir(Path.dirname(path), {recursive: true});
+			const token = await acquireLock(lockPath);
+			// Operations such as undo of a large batch can hold the lock longer than its stale age
+			const refreshInterval = setInterval(() => {
+				const now = new Date();
+				FSP.utimes(lockPath, now, now).catch(() => {});
+			}, LOCK_REFRESH_INTERVAL);
+			refreshInterval.unref();
+			try {
+				return await fn();
+			} finally {
+				clearInterval(refreshInterval);
+				await releaseLock(lockPath, token);
+			}
+		});
+
+	queues.set(key, current);
+
+	try {
+		return await current;
+	} finally {
+		if (queues.get(key) === current) queues.delete(key);
+	}
+}
+
+/**
+ * Creates the lock file, and resolves with a token it holds, which identifies
+ * its owner.
+ *
+ * Waiting times out only when the lock stops changing without becoming stale,
+ * a lock that is being refreshed is held by a live process that will release
+ * it eventually.
+ */
+async function acquireLock(lockPath: string) {
+	const token = `${process.pid}:${uid()}`;
+	let deadline = Date.now() + LOCK_TIMEOUT;
+	let lastMtimeMs: number | null = null;
+
+	while (true) {
+		try {
+			await FSP.writeFile(lockPath, token, {flag: 'wx'});
+			return token;
+		} catch (error) {
+			if ((error as any)?.code !== 'EEXIST') throw error;
+		}
+
+		try {
+			const {mtimeMs, ino} = await FSP.stat(lockPath);
+			if (Date.now() - mtimeMs > STALE_LOCK_AGE) {
+				await removeStaleLock(lockPath, ino);
+				continue;
+			}
+			if (mtimeMs !== lastMtimeMs) {
+				lastMtimeMs = mtimeMs;
+				deadline = Date.now() + LOCK_TIMEOUT;
+			}
+		} catch (error) {
+			// Lock has been released in the meantime
+			if ((error as any)?.code === 'ENOENT') continue;
+			throw error;
+		}
+
+		if (Date.now() > deadline) throw new Error(`Timed out waiting for lock "${lockPath}".`);
+		await new Promise((resolve) => setTimeout(resolve, 10 + Math.random() * 20));
+	}
+}
+
+/**
+ * Moves stale lock out of the way under a unique name, so that only one of
+ * the waiters that found it stale gets to remove it. When it turns out to be
+ * a new lock that another waiter has created in the meantime, it's put back.
+ */
+async function removeStaleLock(lockPath: string, staleIno: number) {
+	const stalePath = `${lockPath}.${uid(6)}.stale`;
+
+	try {
+		await FSP.rename(lockPath, stalePath);
+	} catch (error) {
+		// Another waiter was faster
+		if ((error as any)?.code === 'ENOENT') return;
+		throw error;
+	}
+
+	try {
+		if ((await FSP.stat(stalePath)).ino !== staleIno) {
+			// Fails when yet another lock has been created since, which is then the one that holds
+			await FSP.link(stalePath, lockPath).catch(() => {});
+		}
+	} finally {
+		await FSP.rm(stalePath, {force: true});
+	}
+}
+
+/**
+ * Removes the lock, unless it has been taken over by someone else.
+ */
+async function releaseLock(lockPath: string, token: string) {
+	try {
+		if ((await FSP.readFile(lockPath, 'utf8')) !== token) return;
+	} catch (error) {
+		if ((error as any)?.code === 'ENOENT') return;
+		throw error;
+	}
+	await FSP.rm(lockPath, {force: true});
+}
@@ -0,0 +1,183 @@
+import * as Path from 'path';
+import * as OS from 'os';
+import {promises as FSP} from 'fs';
+import * as dayjs from 'dayjs';
+import {statClosestExisting, pathIsFree} from './utils';
+
+export class TrashError extends Error {
+	path: string;
+
+	constructor(message: string, path: string) {
+		super(message);
+		this.path = path;
+	}
+}
+
+export interface TrashLocation {
+	path: string;
+	// Directory the `Path` key in .trashinfo is relative to, `null` means absolute
+	topdir: string | null;
+}
+
+export const IS_TRASH_SUPPORTED = process.platform !== 'win32';
+
+/**
+ * Finds the trash directory that `path` can be moved to, and makes sure it's
+ * usable, so that it can be checked before anything is changed. Throws
+ * `TrashError` when there is none.
+ */
+export async function resolveTrash(path: string): Promise<TrashLocation> {
+	path = Path.resolve(path);
+
+	switch (process.platform) {
+		case 'win32':
+			throw new TrashError(`Moving to trash is not supported on this platform.`, path);
+		case 'darwin': {
+			const trashPath = Path.join(OS.homedir(), '.Trash');
+			const [{dev}, trashStat] = await Promise.all([FSP.lstat(path), statClosestExisting(trashPath)]);
+			// Items can only be renamed into trash on the same volume
+			if (trashStat.dev !== dev) throw new TrashError(`Can't move "${path}" to trash on another volume.`, path);
+			return {path: trashPath, topdir: null};
+		}
+		default: {
+			const location = await getTrashLocation(path);
+			try {
+				await FSP.mkdir(Path.join(location.path, 'files'), {recursive: true, mode: 0o700});
+				await FSP.mkdir(Path.join(location.path, 'info'), {recursive: true, mode: 0o700});
+			} catch (error) {
+				throw new TrashError(
+					`Trash directory "${location.path}" is not usable: ${(error as any)?.message}`,
+					path
+				);
+			}
+			return location;
+		}
+	}
+}
+
+/**
+ * Moves file or directory to system trash.
+ *
+ * On Linux and other unixes this implements freedesktop.org Trash specification
+ * (https://specifications.freedesktop.org/trash-spec/trashspec-latest.html),
+ * including per-mount `.Trash/$uid` and `.Trash-$uid` directories.
+ *
+ * `originalPath` is the path recorded as the location the item should be
+ * restored to. Defaults to `path`. `location` is the trash directory
+ * previously resolved by `resolveTrash()`, and has to be on the same device.
+ */
+export async function trash(
+	path: string,
+	{originalPath = path, location}: {originalPath?: string; location?: TrashLocation} = {}
+) {
+	path = Path.resolve(path);
+	originalPath = Path.resolve(originalPath);
+	location = location ?? (await resolveTrash(path));
+
+	if (process.platform === 'darwin') return moveToUniquePath(path, location.path, Path.basename(originalPath));
+	return freedesktopTrash(path, originalPath, location);
+}
+
+async function freedesktopTrash(path: string, originalPath: string, location: TrashLocation) {
+	const filesDir = Path.join(location.path, 'files');
+	const infoDir = Path.join(location.path, 'info');
+
+	const recordedPath = location.topdir ? Path.relative(location.topdir, originalPath) : originalPath;
+	const info = [
+		'[Trash Info]',
+		`Path=${recordedPath.split(Path.sep).map(encodeURIComponent).join('/')}`,
+		`DeletionDate=${dayjs().format('YYYY-MM-DDTHH:mm:ss')}`,
+		'',
+	].join('\n');
+
+	// Claiming the .trashinfo file first is what reserves the name
+	const parsed = Path.parse(Path.basename(originalPath));
+	for (let index = 1; ; index++) {
+		const name = index === 1 ? parsed.base : `${parsed.name} ${index}${parsed.ext}`;
+		const infoPath = Path.join(infoDir, `${name}.trashinfo`);
+
+		try {
+			await FSP.writeFile(infoPath, info, {flag: 'wx', mode: 0o600});
+		} catch (error) {
+			if ((error as any)?.code === 'EEXIST') continue;
+			throw error;
+		}
+
+		// Orphaned files without .trashinfo can still occupy the name
+		const trashedPath = Path.join(filesDir, name);
+		if (!(await pathIsFree(trashedPath))) {
+			await FSP.rm(infoPath, {force: true});
+			continue;
+		}
+
+		try {
+			await FSP.rename(path, trashedPath);
+		} catch (error) {
+			await FSP.rm(infoPath, {force: true});
+			throw error;
+		}
+
+		return trashedPath;
+	}
+}
+
+/**
+ * Finds the trash directory that lives on the same device as `path`.
+ */
+async function getTrashLocation(path: string): Promise<TrashLocation> {
+	const uid = process.getuid?.() ?? 0;
+	const dataHome = process.env.XDG_DATA_HOME || Path.join(OS.homedir(), '.local', 'share');
+	const homeTrash = Path.join(dataHome, 'Trash');
+	const {dev} = await FSP.lstat(path);
+
+	if ((await statClosestExisting(homeTrash)).dev === dev) return {path: homeTrash, topdir: null};
+
+	const topdir = await getMountTopdir(path, dev);
+
+	// Administrator created `$topdir/.Trash` has to be a sticky, non-symlinked directory
+	const adminTrash = Path.join(topdir, '.Trash');
+	try {
+		const stat = await FSP.lstat(adminTrash);
+		if (stat.isDirectory() && (stat.mode & 0o1000) !== 0) {
+			return {path: Path.join(adminTrash, `${uid}`), topdir};
+		}
+	} catch {}
+
+	const userTrash = Path.join(topdir, `.Trash-${uid}`);
+	try {
+		await FSP.mkdir(userTrash, {mode: 0o700});
+	} catch (error) {
+		if ((error as any)?.code !== 'EEXIST') {
+			throw new TrashError(`Can't create trash directory "${userTrash}": ${(error as any)?.message}`, path);
+		}
+	}
+
+	return {path: userTrash, topdir};
+}
+
+/**
+ * Walks up from `path` until it reaches the top directory of its mount.
+ */
+async function getMountTopdir(path: string, dev: number) {
+	let topdir = Path.dirname(path);
+
+	while (true) {
+		const parent = Path.dirname(topdir);
+		if (parent === topdir || (await FSP.stat(parent)).dev !== dev) return topdir;
+		topdir = parent;
+	}
+}
+
+async function moveToUniquePath(path: string, directory: string, basename: string) {
+	const parsed = Path.parse(basename);
+	await FSP.mkdir(directory, {recursive: true});
+
+	for (let index = 1; ; index++) {
+		const name = index === 1 ? parsed.base : `${parsed.name} ${index}${parsed.ext}`;
+		const trashedPath = Path.join(directory, name);
+		if (await pathIsFree(trashedPath)) {
+			await FSP.rename(path, trashedPath);
+			return trashedPath;
+		}
+	}
+}
@@ -0,0 +1,25 @@
+import * as Path from 'path';
+import {promises as FSP, Stats} from 'fs';
+
+export interface Entry {
+	// Path relative to the root of the listed item, empty for the root itself
+	path: string;
+	stat: Stats;
+}
+
+/**
+ * Lists the item, and everything in it when it's a directory, parents first.
+ * Symlinks are not followed.
+ */
+export async function listEntries(root: string, path = ''): Promise<Entry[]> {
+	const stat = await FSP.lstat(Path.join(root, path));
+	const entries: Entry[] = [{path, stat}];
+
+	if (stat.isDirectory()) {
+		for (const name of await FSP.readdir(Path.join(root, path))) {
+			entries.push(...(await listEntries(root, Path.join(path, name))));
+		}
+	}
+
+	return entries;
+}
@@ -1,5 +1,9 @@
 import * as Path from 'path';
-import {pathIsFree, escapeStringRegexp} from './utils';
+import {promises as FSP} from 'fs';
+import {TemplateError} from 'expand-template-literal';
+import {pathIsFree, escapeStringRegexp, isSamePath} from './utils';
+import {isCaseSensitiveDirectory, toNameKey} from './identity';
+import {getExtname} from './extensions';
 
 /**
  * Returns `[originalFilename, incrementedFilename]` tuple.
@@ -10,9 +14,75 @@ export interface Incrementer {
 
 /**
  * Should return `true` when path is free to use.
+ *
+ * When directory listing already knows the path exists, it's passed in `hint`,
+ * so the decider doesn't have to query the filesystem again. Paths without
+ * a hint have to be checked.
  */
 export interface Decider {
-	(path: string): Promise<boolean>;
+	(path: string, hint?: DeciderHint): Promise<boolean>;
+}
+
+export interface DeciderHint {
+	exists: boolean;
+}
+
+/**
+ * Names in a directory, as keys that match the way the directory matches
+ * names (case sensitivity, Unicode normalization).
+ */
+interface Listing {
+	keys: Set<string>;
+	toKey: (name: string) => string;
+}
+
+/**
+ * Directory listings shared by `unusedFilename()` calls running in parallel.
+ * Listing is dropped when the last call using it is done.
+ */
+const listings = new Map<string, {listing: Promise<Listing | null>; users: number}>();
+
+async function readListing(dirname: string): Promise<Listing | null> {
+	const isCaseSensitive = await isCaseSensitiveDirectory(dirname);
+	const toKey = (name: string) => toNameKey(name, isCaseSensitive);
+
+	try {
+		return {keys: new Set((await FSP.readdir(dirname)).map(toKey)), toKey};
+	} catch (error) {
+		return (error as any)?.code === 'ENOENT' ? {keys: new Set(), toKey} : null;
+	}
+}
+
+/**
+ * Provides `fn` with a listing of a directory, read once and shared by
+ * parallel calls. Listing is `null` when directory can't be listed.
+ */
+async function withDirectoryListing<T>(dirname: string, fn: (listing: Listing | null) => Promise<T>) {
+	let shared = listings.get(dirname);
+
+	if (!shared) {
+		shared = {listing: readListing(dirname), users: 0};
+		listings.set(dirname, shared);
+	}
+
+	shared.users++;
+	try {
+		return await fn(await shared.listing);
+	} finally {
+		if (--shared.users === 0 && listings.get(dirname) === shared) listings.delete(dirname);
+	}
+}
+
+/**
+ * Updates shared directory listing after a path has been created or removed,
+ * so that calls still in progress see the change.
+ */
+export async function updateDirectoryListing(path: string, exists: boolean) {
+	const listing = await listings.get(Path.dirname(path))?.listing;
+	if (!listing) return;
+	const key = listing.toKey(Path.basename(path));
+	if (exists) listing.keys.add(key);
+	else listing.keys.delete(key);
 }
 
 export class MaxTryError extends Error {
@@ -26,31 +96,136 @@ export class MaxTryError extends Error {
 	}
 }
 
-const parenthesesIncrementer: Incrementer = (inputFilename: string, extension: string) => {
-	const match = inputFilename.match(/^(?<filename>.*)\((?<index>\d+)\)$/);
-	let {filename, index} = match
-		? (match.groups as {filename: string; index: string})
-		: {filename: inputFilename, index: '0'};
-	let indexNum = parseInt(index, 10);
-	filename = filename.trim();
-	return [`${filename}${extension}`, `${filename} (${++indexNum})${extension}`];
+export interface IncrementerOptions {
+	// Index of the first incremented filename
+	start?: number;
+}
+
+export const makeParenthesesIncrementer: (options?: IncrementerOptions) => Incrementer = ({start = 1} = {}) => {
+	return (inputFilename, extension) => {
+		const match = inputFilename.match(/^(?<filename>.*)\((?<index>\d+)\)$/);
+		let {filename, index} = match
+			? (match.groups as {filename: string; index: string})
+			: {filename: inputFilename, index: `${start - 1}`};
+		let indexNum = parseInt(index, 10);
+		filename = filename.trim();
+		return [`${filename}${extension}`, `${filename} (${++indexNum})${extension}`];
+	};
 };
 
-export const makeSeparatorIncrementer: (separator: string) => Incrementer = (separator) => {
+const parenthesesIncrementer = makeParenthesesIncrementer();
+
+export const makeSeparatorIncrementer: (separator: string, options?: IncrementerOptions) => Incrementer = (
+	separator,
+	{start = 1} = {}
+) => {
 	const escapedSeparator = escapeStringRegexp(separator);
 
 	return (inputFilename, extension) => {
 		const match = new RegExp(`^(?<filename>.*)${escapedSeparator}(?<index>\\d+)$`).exec(inputFilename);
 		let {filename, index} = match
 			? (match.groups as {filename: string; index: string})
-			: {filename: inputFilename, index: '0'};
+			: {filename: inputFilename, index: `${start - 1}`};
 		let indexNum = parseInt(index, 10);
 		return [`${filename}${extension}`, `${filename.trim()}${separator}${++indexNum}${extension}`];
 	};
 };
 
-const incrementPath = (filePath: string, incrementer: Incrementer): [string, string] => {
-	const ext = Path.extname(filePath);
+/**
+ * Creates incrementer from a template such as `${filename}.v${n}`, or
+ * `${filename}_${pad(n, 3)}`. Template has to contain `${filename}`, and
+ * exactly one of `${n}` or `${pad(n, width)}`, other expressions are not
+ * allowed.
+ *
+ * Template is also turned into a regular expression, so that already
+ * incremented filenames continue from their index.
+ */
+export const makeTemplateIncrementer: (template: string, options?: IncrementerOptions) => Incrementer = (
+	template,
+	{start = 1} = {}
+) => {
+	const tokenRegExp = /\$\{\s*(?:(?<filename>filename)|n|pad\(\s*n\s*,\s*(?<width>\d+)\s*\))\s*\}/g;
+	const parts: (string | {type: 'filename'} | {type: 'index'; width: number})[] = [];
+	let lastIndex = 0;
+	let filenameCount = 0;
+	let indexCount = 0;
+
+	for (const match of template.matchAll(tokenRegExp)) {
+		parts.push(template.slice(lastIndex, match.index));
+		const {filename, width} = match.groups!;
+		if (filename) {
+			filenameCount++;
+			parts.push({type: 'filename'});
+		} else {
+			indexCount++;
+			parts.push({type: 'index', width: width ? parseInt(width, 10) : 0});
+		}
+		lastIndex = match.index! + match[0].length;
+	}
+	parts.push(template.slice(lastIndex));
+
+	for (const part of parts) {
+		const unknownExpressionIndex = typeof part === 'string' ? part.indexOf('${') : -1;
+		if (unknownExpressionIndex > -1) {
+			throw new TemplateError(
+				`Incrementer template only supports \${filename}, \${n}, and \${pad(n, width)} expressions.`
+			);
+		}
+	}
+
+	if (filenameCount !== 1 || indexCount !== 1) {
+		throw new TemplateError(
+			`Incrementer template has to contain \${filename} once, and \${n} or \${pad(n, width)} once.`
+		);
+	}
+
+	const regExp = new RegExp(
+		`^${parts
+			.map((part) =>
+				typeof part === 'string'
+					? escapeStringRegexp(part)
+					: part.type === 'filename'
+					? '(?<filename>.*)'
+					: `(?<index>\\d{${part.width || 1},})`
+			)
+			.join('')}$`
+	);
+
+	const format = (filename: string, index: number) =>
+		parts
+			.map((part) =>
+				typeof part === 'string'
+					? part
+					: part.type === 'filename'
+					? filename
+					: `${index}`.padStart(part.width, '0')
+			)
+			.join('');
+
+	return (inputFilename, extension) => {
+		const match = regExp.exec(inputFilename);
+		let {filename, index} = match
+			? (match.groups as {filename: string; index: string})
+			: {filename: inputFilename, index: `${start - 1}`};
+		let indexNum = parseInt(index, 10);
+		return [`${filename}${extension}`, `${format(filename, ++indexNum)}${extension}`];
+	};
+};
+
+interface IncrementPathOptions {
+	isDirectory?: boolean;
+	compoundExtensions?: string[];
+}
+
+/**
+ * Directories have no extension, dots in their names are part of the name.
+ */
+const incrementPath = (
+	filePath: string,
+	incrementer: Incrementer,
+	{isDirectory = false, compoundExtensions}: IncrementPathOptions = {}
+): [string, string] => {
+	const ext = isDirectory ? '' : getExtname(filePath, compoundExtensions);
 	const dirname = Path.dirname(filePath);
 	const [originalFilename, incrementedFilename] = incrementer(Path.basename(filePath, ext), ext);
 	return [Path.join(dirname, originalFilename), Path.join(dirname, incrementedFilename)];
@@ -62,15 +237,35 @@ export async function unusedFilename(
 		incrementer = parenthesesIncrementer,
 		maxTries = Number.POSITIVE_INFINITY,
 		decider = pathIsFree,
-	}: {incrementer?: Incrementer; maxTries?: number; decider?: Decider} = {}
+		alwaysIncrement = false,
+		...pathOptions
+	}: {
+		incrementer?: Incrementer;
+		maxTries?: number;
+		decider?: Decider;
+		alwaysIncrement?: boolean;
+	} & IncrementPathOptions = {}
 ) {
 	let tries = 0;
-	let [originalPath] = incrementPath(filePath, incrementer);
+	let [originalPath, incrementedPath] = incrementPath(filePath, incrementer, pathOptions);
 	let unusedPath = filePath;
 
-	while (true) {
-		if (await decider(unusedPath)) return unusedPath;
-		if (++tries > maxTries) throw new MaxTryError(originalPath, unusedPath);
-		[originalPath, unusedPath] = incrementPath(unusedPath, incrementer);
-	}
+	// Filenames that already have an index are not incremented again
+	if (alwaysIncrement && isSamePath(originalPath, filePath)) unusedPath = incrementedPath;
+
+	// Directory is listed once, so that paths known to exist don't have to be
+	// probed one by one. When listing is not allowed, every path is probed.
+	return withDirectoryListing(Path.dirname(filePath), async (listing) => {
+		while (true) {
+			const isKnownToExist = listing?.keys.has(listing.toKey(Path.basename(unusedPath))) === true;
+
+			// Default decider would only confirm what the listing already knows
+			if (!(isKnownToExist && decider === pathIsFree)) {
+				if (await decider(unusedPath, isKnownToExist ? {exists: true} : undefined)) return unusedPath;
+			}
+
+			if (++tries > maxTries) throw new MaxTryError(originalPath, unusedPath);
+			[originalPath, unusedPath] = incrementPath(unusedPath, incrementer, pathOptions);
+		}
+	});
 }
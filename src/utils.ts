@@ -2,9 +2,14 @@ import * as Path from 'path';
 import {promises as FSP} from 'fs';
 import * as dayjs from 'dayjs';
 import {expandTemplateLiteral} from 'expand-template-literal';
+import {expandSafeTemplate} from './safeTemplate';
+import {makeHelpers} from './helpers';
+import {resolveCompoundExtensions, splitExtension} from './extensions';
 import {SaveAsPathOptions} from './';
 
-const IS_WINDOWS = process.platform === 'win32';
+// Default filesystems of these platforms, actual filesystems have to be probed
+export const IS_CASE_INSENSITIVE_PLATFORM = process.platform === 'win32' || process.platform === 'darwin';
+export const IS_NORMALIZATION_INSENSITIVE_PLATFORM = process.platform === 'darwin';
 
 /**
  * Check if there is nothing on the passed `path`.
@@ -18,51 +23,174 @@ export async function pathIsFree(path: string) {
 	return false;
 }
 
+/**
+ * Check if both paths live on the same device, meaning a file can be simply
+ * renamed from one to another. Paths that don't exist yet are resolved to
+ * their closest existing parent directory.
+ */
+export async function isSameDevice(pathA: string, pathB: string) {
+	const [statA, statB] = await Promise.all([statClosestExisting(pathA), statClosestExisting(pathB)]);
+	return statA.dev === statB.dev;
+}
+
+/**
+ * Finds `path`, or its closest parent directory that exists.
+ */
+export async function findClosestExisting(path: string) {
+	path = Path.resolve(path);
+	while (await pathIsFree(path)) {
+		const parentPath = Path.dirname(path);
+		if (parentPath === path) break;
+		path = parentPath;
+	}
+	return path;
+}
+
+/**
+ * Stats `path`, or its closest existing parent directory.
+ */
+export async function statClosestExisting(path: string) {
+	path = Path.resolve(path);
+	while (true) {
+		try {
+			return await FSP.stat(path);
+		} catch (error) {
+			const parentPath = Path.dirname(path);
+			if ((error as any)?.code !== 'ENOENT' || parentPath === path) throw error;
+			path = parentPath;
+		}
+	}
+}
+
 export function expandTemplate(
-	inputPath: string,
+	inputPaths: string[],
 	outputExtension: string | null | undefined,
 	{
 		destination = '${basename}',
 		extraVariables,
-	}: Required<Pick<SaveAsPathOptions, 'destination'>> & Pick<SaveAsPathOptions, 'extraVariables'>
+		safe = false,
+		safeTimeLimit,
+		compoundExtensions,
+	}: Required<Pick<SaveAsPathOptions, 'destination'>> &
+		Pick<SaveAsPathOptions, 'extraVariables' | 'safe' | 'safeTimeLimit' | 'compoundExtensions'>
+) {
+	const variables = {...makePathVariables(inputPaths, outputExtension, compoundExtensions), ...extraVariables};
+
+	// Expand the template
+	return safe
+		? expandSafeTemplate(destination, variables, {timeLimit: safeTimeLimit})
+		: expandTemplateLiteral(destination, variables);
+}
+
+/**
+ * Built-in variables derived from input paths and output extension, and
+ * template utilities.
+ *
+ * Input names are split with compound extensions in mind, so that output
+ * extension replaces all of `.tar.gz`, not just `.gz`.
+ */
+export function makePathVariables(
+	inputPaths: string[],
+	outputExtension: string | null | undefined,
+	compoundExtensions?: string[]
 ) {
+	const inputPath = inputPaths[0]!;
+	const extensions = resolveCompoundExtensions(compoundExtensions, outputExtension);
 	const dirname = Path.dirname(inputPath);
-	const srcextname = Path.extname(inputPath);
+	const {filename, extname: srcextname} = splitExtension(inputPath, extensions);
+	const srcext = srcextname[0] === '.' ? srcextname.slice(1) : srcextname;
 	const srcbasename = Path.basename(inputPath);
-	const filename = Path.basename(srcbasename, srcextname);
 	const ext = outputExtension || '';
 	const extname = outputExtension ? `.${outputExtension}` : '';
 	const basename = `${filename}${extname}`;
+	const filenames = inputPaths.map((path) => splitExtension(path, extensions).filename);
 	const variables: Record<string, any> = {
 		path: Path.join(dirname, basename),
 		srcextname,
-		srcext: srcextname[0] === '.' ? srcextname.slice(1) : srcextname,
+		srcext,
 		srcbasename,
+		srcExtname: srcextname,
+		srcExt: srcext,
+		srcBasename: srcbasename,
 		filename,
 		dirname,
 		ext,
 		extname,
 		basename,
 		dirbasename: Path.basename(dirname),
+		inputs: inputPaths.map((path) => {
+			const {filename: name, extname: ext} = splitExtension(path, extensions);
+			return {path, ...Path.parse(path), name, ext};
+		}),
+		count: inputPaths.length,
+		commonDirname: getCommonDirname(inputPaths) || dirname,
+		commonPrefix: getCommonPrefix(filenames),
+		firstFilename: filename,
+		lastFilename: filenames[filenames.length - 1]!,
 		Time: dayjs,
 		uid,
-		...extraVariables,
+		...makeHelpers(inputPath),
 	};
 
-	// Expand the template
-	return expandTemplateLiteral(destination, variables);
+	return variables;
+}
+
+/**
+ * Deepest directory containing all of the paths. Returns `null` when paths
+ * don't share a root, such as files on different Windows drives.
+ */
+export function getCommonDirname(paths: string[]) {
+	const splitDirname = (path: string) => Path.dirname(Path.resolve(path)).split(Path.sep);
+	const [first, ...rest] = paths.map(splitDirname);
+	if (!first) return null;
+	let length = first.length;
+
+	for (const segments of rest) {
+		length = Math.min(length, segments.length);
+		let index = 0;
+		while (index < length && toPathKey(segments[index]!) === toPathKey(first[index]!)) index++;
+		length = index;
+	}
+
+	if (length === 0) return null;
+
+	// Root is left with a trailing separator, e.g. `/` or `C:\`
+	return length === 1 ? `${first[0]}${Path.sep}` : first.slice(0, length).join(Path.sep);
+}
+
+/**
+ * Longest common start of all strings, without trailing spaces, dashes,
+ * underscores, and dots, so that `clip - 1` & `clip - 2` result in `clip`.
+ */
+export function getCommonPrefix(strings: string[]) {
+	const [first = '', ...rest] = strings;
+	let length = first.length;
+
+	for (const string of rest) {
+		let index = 0;
+		while (index < length && string[index] === first[index]) index++;
+		length = index;
+	}
+
+	return first.slice(0, length).replace(/[\s._-]+$/, '');
 }
 
 function normalizePath(path: string) {
 	return Path.normalize(path.trim().replace(/[\\\/]+$/, ''));
 }
 
+/**
+ * Normalized path string that can be used to compare paths, or as a map key.
+ * Assumes default filesystem of the platform, use `isSameFile()` to check
+ * wether paths point to the same file.
+ */
+export function toPathKey(path: string) {
+	if (IS_NORMALIZATION_INSENSITIVE_PLATFORM) path = path.normalize('NFC');
+	return normalizePath(IS_CASE_INSENSITIVE_PLATFORM ? path.toLowerCase() : path);
+}
+
 export function isSamePath(pathA: string, pathB: string) {
-	if (IS_WINDOWS) {
-		pathA = pathA.toLowerCase();
-		pathB = pathB.toLowerCase();
-	}
-	return normalizePath(pathA) === normalizePath(pathB);
+	return toPathKey(pathA) === toPathKey(pathB);
 }
 
 export const uid = (size = 10) =>
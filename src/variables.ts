@@ -0,0 +1,228 @@
+import {promises as FSP} from 'fs';
+import * as dayjs from 'dayjs';
+import {platformPaths} from 'platform-paths';
+import {TemplateError} from 'expand-template-literal';
+import {readMediaInfo} from './media';
+import {getTemplateDependencies} from './dependencies';
+import {ANY_VALUE} from './safeTemplate';
+import {makeSequenceStub} from './sequences';
+import {hashPath, OperationHooks} from './progress';
+
+/**
+ * Computes a template variable value. Only called when template uses it.
+ */
+export type VariableLoader = () => Promise<unknown>;
+
+const LAZY = Symbol('lazyVariable');
+
+/**
+ * Extra variable that is only computed when template uses it.
+ */
+export interface LazyVariable<T = unknown> {
+	[LAZY]: true;
+	get: () => T | Promise<T>;
+}
+
+export const PLATFORM_PATH_NAMES = Object.keys(platformPaths) as (keyof typeof platformPaths)[];
+export const CHECKSUM_NAMES = ['crc32', 'md5', 'sha1', 'sha256', 'sha512'];
+
+/**
+ * Makes loaders of all built-in variables that require a filesystem query or
+ * some other expensive operation.
+ */
+export function makeVariableLoaders({
+	inputPath,
+	tmpPath,
+	hooks,
+}: {
+	inputPath: string;
+	tmpPath: string;
+	hooks?: OperationHooks;
+}) {
+	const loaders: Record<string, VariableLoader> = {};
+
+	for (const name of PLATFORM_PATH_NAMES) loaders[name] = () => platformPaths[name]();
+
+	for (const name of CHECKSUM_NAMES) {
+		const getChecksum = memoize(() => hashPath(tmpPath, name, hooks));
+		loaders[name] = getChecksum;
+		loaders[name.toUpperCase()] = async () => (await getChecksum()).toUpperCase();
+	}
+
+	const getStat = memoize(() => FSP.stat(tmpPath));
+	const getSrcStat = memoize(() => FSP.stat(inputPath));
+
+	loaders.size = async () => (await getStat()).size;
+	loaders.sizeHuman = async () => formatSize((await getStat()).size);
+	loaders.mode = async () => ((await getStat()).mode & 0o777).toString(8);
+	loaders.sizeRatio = async () => {
+		const [stat, srcStat] = await Promise.all([getStat(), getSrcStat()]);
+		return srcStat.size > 0 ? stat.size / srcStat.size : 0;
+	};
+	loaders.srcSize = async () => (await getSrcStat()).size;
+	loaders.srcMtime = async () => dayjs((await getSrcStat()).mtime);
+	loaders.srcBirthtime = async () => dayjs((await getSrcStat()).birthtime);
+	loaders.srcCtime = async () => dayjs((await getSrcStat()).ctime);
+
+	const getMedia = memoize(() => readMediaInfo(tmpPath));
+	const getSrcMedia = memoize(() => readMediaInfo(inputPath));
+
+	loaders.width = async () => (await getMedia()).width;
+	loaders.height = async () => (await getMedia()).height;
+	loaders.orientation = async () => (await getMedia()).orientation;
+	loaders.exif = async () => (await getMedia()).exif;
+	loaders.srcWidth = async () => (await getSrcMedia()).width;
+	loaders.srcHeight = async () => (await getSrcMedia()).height;
+	loaders.srcOrientation = async () => (await getSrcMedia()).orientation;
+	loaders.srcExif = async () => (await getSrcMedia()).exif;
+
+	return loaders;
+}
+
+/**
+ * Stub values of built-in variables for validating templates without any
+ * files involved.
+ */
+export function makeVariableStubs() {
+	const stubs: Record<string, unknown> = {};
+	const stringStubNames = [
+		...PLATFORM_PATH_NAMES,
+		...CHECKSUM_NAMES,
+		...CHECKSUM_NAMES.map((name) => name.toUpperCase()),
+		'sizeHuman',
+		'mode',
+	];
+
+	for (const name of stringStubNames) stubs[name] = `{${name}}`;
+	stubs.size = 0;
+	stubs.srcSize = 0;
+	stubs.sizeRatio = 1;
+	stubs.srcMtime = dayjs();
+	stubs.srcBirthtime = dayjs();
+	stubs.srcCtime = dayjs();
+
+	const exifStub = {date: dayjs(), make: '{make}', model: '{model}', lens: '{lens}'};
+	stubs.width = stubs.srcWidth = 0;
+	stubs.height = stubs.srcHeight = 0;
+	stubs.orientation = stubs.srcOrientation = 1;
+	stubs.exif = stubs.srcExif = exifStub;
+	stubs.seq = makeSequenceStub();
+
+	return stubs;
+}
+
+/**
+ * Marks `get` as a lazy extra variable getter, so that it's only called when
+ * template uses the variable, instead of being passed to it as a function.
+ */
+export function lazyVariable<T>(get: () => T | Promise<T>): LazyVariable<T> {
+	return {[LAZY]: true, get};
+}
+
+const isLazyVariable = (value: unknown): value is LazyVariable =>
+	value != null && typeof value === 'object' && (value as any)[LAZY] === true;
+
+const isPromise = (value: unknown): value is Promise<unknown> =>
+	value != null && typeof (value as any).then === 'function';
+
+/**
+ * Resolves lazy and promised extra variables the template uses. Ones it
+ * doesn't use are left out.
+ */
+export async function loadExtraVariables(template: string, extraVariables: Record<string, unknown> = {}) {
+	const dependencies = getTemplateDependencies(template);
+	const variables: Record<string, unknown> = {};
+
+	// Promises are awaited one by one, or not at all, so none of them can be
+	// let to cause unhandled rejections while others are being awaited
+	for (const value of Object.values(extraVariables)) {
+		if (isPromise(value)) value.catch(() => {});
+	}
+
+	for (const [name, value] of Object.entries(extraVariables)) {
+		if (!isLazyVariable(value) && !isPromise(value)) {
+			variables[name] = value;
+			continue;
+		}
+
+		if (!dependencies.includes(name)) continue;
+
+		try {
+			variables[name] = isLazyVariable(value) ? await value.get() : await value;
+		} catch (error) {
+			throw new TemplateError(`Variable "${name}" failed to load: ${(error as any)?.message || error}`);
+		}
+	}
+
+	return variables;
+}
+
+/**
+ * Replaces lazy and promised extra variables with stubs, so that templates
+ * can be validated without computing them.
+ */
+export function stubExtraVariables(extraVariables: Record<string, unknown> = {}) {
+	const variables: Record<string, unknown> = {};
+
+	for (const [name, value] of Object.entries(extraVariables)) {
+		variables[name] = isLazyVariable(value) || isPromise(value) ? makeUniversalStub(`{${name}}`) : value;
+	}
+
+	return variables;
+}
+
+/**
+ * Stub for values with unknown shape. Any property access or call returns
+ * another stub, and it turns into `label` when converted to a string.
+ */
+export function makeUniversalStub(label: string): any {
+	return new Proxy(function () {}, {
+		get: (_, property) => {
+			if (property === Symbol.toPrimitive || property === 'toString' || property === 'valueOf') {
+				return () => label;
+			}
+			if (property === ANY_VALUE) return true;
+			return typeof property === 'symbol' ? undefined : makeUniversalStub(label);
+		},
+		apply: () => makeUniversalStub(label),
+	});
+}
+
+/**
+ * Loads values of variables the template uses.
+ */
+export async function loadVariables(template: string, loaders: Record<string, VariableLoader>) {
+	const variables: Record<string, unknown> = {};
+
+	for (const name of getTemplateDependencies(template)) {
+		const loader = Object.prototype.hasOwnProperty.call(loaders, name) ? loaders[name] : undefined;
+		if (loader) variables[name] = await loader();
+	}
+
+	return variables;
+}
+
+/**
+ * Formats size in bytes into human readable format, such as `1.5MB`.
+ */
+export function formatSize(bytes: number) {
+	const units = ['B', 'KB', 'MB', 'GB', 'TB', 'PB'];
+	let value = bytes;
+	let unitIndex = 0;
+
+	while (value >= 1024 && unitIndex < units.length - 1) {
+		value /= 1024;
+		unitIndex++;
+	}
+
+	const rounded = unitIndex === 0 ? `${value}` : `${Math.round(value * 10) / 10}`;
+	return `${rounded}${units[unitIndex]}`;
+}
+
+function memoize<T>(fn: () => Promise<T>) {
+	let promise: Promise<T> | undefined;
+	return () => {
+		if (!promise) promise = fn();
+		return promise;
+	};
+}
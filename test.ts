@@ -1,8 +1,27 @@
 import test from 'ava';
 import * as Path from 'path';
-import {promises as FSP} from 'fs';
-import {saveAsPath, checkSaveAsPathOptions, TemplateError, SaveAsPathOptions} from './src/index';
+import {promises as FSP, existsSync, rmSync, writeFileSync} from 'fs';
+import {
+	saveAsPath,
+	makeOptionSchema,
+	planSaveAsPath,
+	checkSaveAsPathOptions,
+	analyzeSaveAsPathOptions,
+	TemplateError,
+	SafeTemplateError,
+	ConflictError,
+	TrashError,
+	getTemplateDependencies,
+	lazyVariable,
+	resetSequence,
+	undoJournal,
+	pruneJournal,
+	SaveAsPathOptions,
+	SaveAsPathProgress,
+	OutputPathDetails,
+} from './src/index';
 import * as OS from 'os';
+import {execFileSync} from 'child_process';
 
 const fixturesRoot = Path.join(OS.tmpdir(), 'save-as-path-test-fixtures');
 let fixturesWorkspacesCounter = 0;
@@ -38,7 +57,13 @@ function createFixtures() {
 
 		const filesToCreate = Array.isArray(files) ? files.map((file) => [file, ''] as const) : Object.entries(files);
 
+		// Paths ending with `/` are created as empty directories
 		for (const [file, contents] of filesToCreate) {
+			if (file.endsWith('/')) {
+				await FSP.mkdir(Path.join(path, file), {recursive: true});
+				continue;
+			}
+			await FSP.mkdir(Path.dirname(Path.join(path, file)), {recursive: true});
 			await FSP.writeFile(Path.join(path, file), contents);
 		}
 	}
@@ -54,7 +79,8 @@ function createFixtures() {
 
 /**
  * Lists all files in a directory recursively into a flat `['foo/bar.jpg']` like
- * alphabetically sorted array. Separator is always `/`.
+ * alphabetically sorted array. Separator is always `/`. Empty directories are
+ * listed with a trailing slash: `foo/`.
  */
 async function listFiles(directoryPath: string) {
 	const results: string[] = [];
@@ -64,6 +90,7 @@ async function listFiles(directoryPath: string) {
 		if (item.isFile()) results.push(item.name);
 		if (item.isDirectory()) {
 			const nestedFiles = await listFiles(Path.join(directoryPath, item.name));
+			if (nestedFiles.length === 0) results.push(`${item.name}/`);
 			results.push(...nestedFiles.map((name) => `${item.name}/${name}`));
 		}
 	}
@@ -95,6 +122,119 @@ test('checkSaveAsPathOptions() throws on syntax errors', async (t) => {
 	t.is(error?.message, `Unexpected token '.'`);
 });
 
+test('getTemplateDependencies() lists referenced variables', async (t) => {
+	t.deepEqual(getTemplateDependencies('homework/sha1/${filename}${extname}'), ['filename', 'extname']);
+	t.deepEqual(getTemplateDependencies("${srcExif.date.format('YYYY')}/${a ? b.home : `${c}-md5`}"), [
+		'srcExif',
+		'a',
+		'b',
+		'c',
+	]);
+	t.deepEqual(getTemplateDependencies('\\${home}${"}"}${map[bar]}${typeof md5}${1.5e3}${[...list]}'), [
+		'map',
+		'bar',
+		'md5',
+		'list',
+	]);
+	t.deepEqual(getTemplateDependencies("${seq('page', {pad: 4, start, 'scope': a ? b : c})}"), [
+		'seq',
+		'start',
+		'a',
+		'b',
+		'c',
+	]);
+});
+
+test('checkSaveAsPathOptions() supports safe mode templates', async (t) => {
+	const safe = (destination: string) => checkSaveAsPathOptions({destination, safe: true});
+
+	t.is(
+		safe("${srcMtime.format('YYYY')}/${filename.toUpperCase().slice(0, 3)}-${size > 1 ? 'big' : `s${1 + 2}`}"),
+		true
+	);
+	t.is(safe("${inputs.map((input) => input.name).filter((name) => name !== 'x').join('+')}${uid(4)}"), true);
+	t.is(safe('${exif?.date?.format("YY") ?? \'none\'}${Time().add(1, "day").year()}'), true);
+
+	const cases: [string, string][] = [
+		['${new Date()}', '"new" is not allowed at position 2'],
+		['${filename.constructor}', 'Access to "constructor" is not allowed at position 11'],
+		["${filename['__proto__']}", 'Access to "__proto__" is not allowed at position 10'],
+		['${Time.extend}', 'Property "extend" is not allowed here at position 7'],
+		['${filename.big()}', 'Method "big" is not allowed at position 11'],
+		['${filename = 1}', 'Expected "}", but found "=" at position 11'],
+		['${(() => { return 1 })()}', 'Arrow functions can only have expression bodies at position 9'],
+		["${'a'.repeat(1e9)}", 'String is too long at position 6'],
+		['${foo}', 'foo is not defined at position 2'],
+		["${seq('a', {__proto__: 1})}", 'Access to "__proto__" is not allowed at position 12'],
+		['${filename', 'Expected "}" at position 10'],
+	];
+
+	for (const [template, message] of cases) {
+		const error = t.throws<SafeTemplateError>(() => safe(template), {instanceOf: SafeTemplateError}, template);
+		t.is(error?.message, message, template);
+		t.true(error instanceof TemplateError);
+	}
+
+	const error = t.throws<SafeTemplateError>(() =>
+		checkSaveAsPathOptions({destination: '${((f) => f(f))((f) => f(f))}', safe: true})
+	);
+	t.is(error?.message, 'Functions are nested too deeply at position 16');
+});
+
+test('saveAsPath() expands safe mode templates', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	await setup(['tmpfile']);
+	t.is(
+		await saveAsPath(fp('photo.png'), fp('tmpfile'), 'jpg', {
+			destination: '${dirbasename}/${filename.padStart(8, "_")}\\u0021${extname}',
+			safe: true,
+		}),
+		fp(`${Path.basename(Path.dirname(fp('photo.png')))}/___photo!.jpg`)
+	);
+});
+
+test('analyzeSaveAsPathOptions() reports all problems with positions', async (t) => {
+	const codes = (options: SaveAsPathOptions) =>
+		analyzeSaveAsPathOptions(options).problems.map(({code, start, end}) => [code, start, end]);
+
+	t.deepEqual(analyzeSaveAsPathOptions({destination: '${filename}-${md5}${extname}'}), {
+		problems: [],
+		sample: Path.resolve('/foo/bar/baz-{md5}.jpg'),
+	});
+
+	const {problems, sample} = analyzeSaveAsPathOptions({destination: '${basenme}/${.x}/${Filename}'});
+	t.is(sample, null);
+	t.deepEqual(
+		problems.map(({code, start, end, suggestion}) => [code, start, end, suggestion]),
+		[
+			['syntax', 13, 15, undefined],
+			['unknown-variable', 2, 9, 'basename'],
+			['unknown-variable', 19, 27, 'filename'],
+		]
+	);
+	t.is(problems[1]?.message, 'Unknown variable "basenme", did you mean "basename"?');
+
+	t.deepEqual(codes({destination: 'foo\\bar/${basename}'}), [['backslash', 3, 5]]);
+	if (process.platform !== 'win32') {
+		t.deepEqual(codes({destination: 'C:/foo/${basename}'}), [['windows-path', 0, 3]]);
+	}
+	t.deepEqual(codes({destination: '${dirname}'}), [['no-filename', 10, 10]]);
+	t.deepEqual(codes({destination: 'folder/'}), [['no-filename', 7, 7]]);
+	t.deepEqual(codes({destination: '${dirname}/${srcbasename}'}), [['same-as-input', 0, 25]]);
+	t.deepEqual(codes({destination: '${dirname}/${srcbasename}', deleteOriginal: true}), []);
+	t.deepEqual(codes({destination: '${uid()}', overwriteDestination: true}), [['nondeterministic-overwrite', 2, 5]]);
+	t.deepEqual(codes({destination: '${uid()}', conflict: 'increment', overwriteDestination: true}), [
+		['nondeterministic-overwrite', 2, 5],
+	]);
+	t.deepEqual(codes({destination: '${uid()}', conflict: 'skip', overwriteDestination: true}), []);
+	t.deepEqual(codes({destination: '${foo.bar}', incrementer: 'template', incrementerTemplate: '${n}'}), [
+		['incrementer', 0, 4],
+		['unknown-variable', 2, 5],
+	]);
+	t.deepEqual(codes({destination: '${basename.constructor}', safe: true}), [['runtime', 11, 12]]);
+	t.deepEqual(codes({destination: '${new Date()}', safe: true}), [['syntax', 2, 3]]);
+});
+
 test(`saveAsPath() throws when tmpPath doesn't exist`, async (t) => {
 	const {getFixturePath: fp} = createFixtures();
 	const missingPath = fp('missing');
@@ -183,6 +323,117 @@ test('saveAsPath() increments until free file is found', async (t) => {
 	t.deepEqual(await list(), ['foo', 'foo (1)', 'foo (2)', 'foo (3)', 'foo (4)']);
 });
 
+test.serial('saveAsPath() reads directory listing instead of probing every incremented path', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const files = ['tmpfile', 'frame.png', ...Array.from({length: 300}, (_, index) => `frame ${index + 1}.png`)];
+	const {access, stat, lstat} = FSP;
+	let calls = 0;
+
+	await setup(files);
+	FSP.access = (...args) => (calls++, access(...args));
+	FSP.stat = ((...args: Parameters<typeof stat>) => (calls++, stat(...args))) as typeof stat;
+	FSP.lstat = ((...args: Parameters<typeof lstat>) => (calls++, lstat(...args))) as typeof lstat;
+
+	try {
+		t.is(await saveAsPath(fp('frame.png'), fp('tmpfile'), 'png', o('')), fp('frame 301.png'));
+	} finally {
+		Object.assign(FSP, {access, stat, lstat});
+	}
+
+	t.true(calls < 20, `${calls} access and stat calls`);
+});
+
+test('saveAsPath() never lets parallel saves choose the same path', async (t) => {
+	const {setup, getFixturePath: fp, list} = createFixtures();
+	const count = 20;
+	const tmpFiles = Array.from({length: count}, (_, index) => `tmp${index}`);
+	await setup(Object.fromEntries(tmpFiles.map((file) => [file, file])));
+
+	const outputPaths = await Promise.all(
+		tmpFiles.map((file) => saveAsPath(fp('input.txt'), fp(file), 'txt', o('out/${basename}')))
+	);
+
+	t.is(new Set(outputPaths).size, count);
+	const files = await list();
+	t.is(files.length, count);
+	const contents = await Promise.all(files.map((file) => FSP.readFile(fp(file), 'utf8')));
+	t.deepEqual(contents.sort(), [...tmpFiles].sort());
+});
+
+test('saveAsPath() removes placeholder when saving fails', async (t) => {
+	const {setup, getFixturePath: fp, list} = createFixtures();
+	await setup(['tmpfile']);
+	const onOutputPath = () => {
+		throw new Error('oops');
+	};
+	await t.throwsAsync(() => saveAsPath(fp('input.txt'), fp('tmpfile'), 'txt', o('', {onOutputPath})), {
+		message: 'oops',
+	});
+	t.deepEqual(await list(), ['tmpfile']);
+});
+
+test('saveAsPath() supports incrementer templates', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+
+	await setup(['tmpfile', 'foo.jpg', 'foo.v1.jpg']);
+	t.is(
+		await saveAsPath(
+			fp('foo.jpg'),
+			fp('tmpfile'),
+			'jpg',
+			o('', {incrementer: 'template', incrementerTemplate: '${filename}.v${n}'})
+		),
+		fp('foo.v2.jpg')
+	);
+
+	await setup(['tmpfile', 'foo.jpg']);
+	const padded = {incrementer: 'template', incrementerTemplate: '${filename}_${pad(n, 3)}'} as const;
+	t.is(await saveAsPath(fp('foo.jpg'), fp('tmpfile'), 'jpg', o('', padded)), fp('foo_001.jpg'));
+
+	await setup(['tmpfile', 'foo_003.jpg']);
+	t.is(await saveAsPath(fp('foo_003.jpg'), fp('tmpfile'), 'jpg', o('', padded)), fp('foo_004.jpg'));
+
+	await setup(['tmpfile', 'foo.jpg']);
+	t.is(
+		await saveAsPath(fp('foo.jpg'), fp('tmpfile'), 'jpg', o('', {...padded, incrementStart: 0})),
+		fp('foo_000.jpg')
+	);
+});
+
+test('saveAsPath() supports always increment mode', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const padded = {
+		incrementer: 'template',
+		incrementerTemplate: '${filename}_${pad(n, 3)}',
+		alwaysIncrement: true,
+	} as const;
+
+	await setup(['tmpfile']);
+	t.is(await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', o('', padded)), fp('foo_001.jpg'));
+
+	await setup(['tmpfile', 'foo_001.jpg']);
+	t.is(await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', o('', padded)), fp('foo_002.jpg'));
+
+	await setup(['tmpfile', 'foo_003.jpg']);
+	t.is(await saveAsPath(fp('foo_003.jpg'), fp('tmpfile'), 'jpg', o('', padded)), fp('foo_004.jpg'));
+
+	await setup(['tmpfile', 'foo_003.jpg']);
+	t.is(await saveAsPath(fp('foo_003.jpg'), fp('tmpfile'), 'jpg', o(':d', padded)), fp('foo_003.jpg'));
+
+	await setup(['tmpfile']);
+	t.is(await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', o('', {alwaysIncrement: true})), fp('foo 1.jpg'));
+});
+
+test('checkSaveAsPathOptions() validates incrementer template', async (t) => {
+	t.is(checkSaveAsPathOptions({incrementer: 'template', incrementerTemplate: '${filename}-${pad(n, 2)}'}), true);
+	t.throws(() => checkSaveAsPathOptions({incrementer: 'template', incrementerTemplate: '${filename}'}), {
+		instanceOf: TemplateError,
+	});
+	t.throws(() => checkSaveAsPathOptions({incrementer: 'template', incrementerTemplate: '${filename}${n}${foo}'}), {
+		instanceOf: TemplateError,
+	});
+});
+
 test('saveAsPath() expands path variables', async (t) => {
 	const {setup, getFixturePath: fp, index} = createFixtures();
 
@@ -204,11 +455,108 @@ test('saveAsPath() expands path variables', async (t) => {
 	t.is(await saveAsPath(fp('new.txt'), fp('tmpfile'), 'jpg', o('${dirname}/foo')), fp('foo'));
 });
 
+test('saveAsPath() sanitizes expanded paths', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const extraVariables = {title: 'What: "a\ttitle"? ', device: 'con'};
+	let details: OutputPathDetails | undefined;
+	const onOutputPath = (_: string, outputPathDetails: OutputPathDetails) => (details = outputPathDetails);
+
+	await setup(['tmpfile']);
+	t.is(
+		await saveAsPath(
+			fp('new.txt'),
+			fp('tmpfile'),
+			'jpg',
+			o('${title}/${device}${extname}', {sanitize: 'portable', extraVariables, onOutputPath})
+		),
+		fp('What_ _a_title__/con_.jpg')
+	);
+	t.is(details?.expandedPath, fp('What: "a\ttitle"? /con.jpg'));
+	t.is(details?.sanitizedPath, fp('What_ _a_title__/con_.jpg'));
+
+	await setup(['tmpfile']);
+	t.is(
+		await saveAsPath(
+			fp('new.txt'),
+			fp('tmpfile'),
+			'jpg',
+			o('${title}', {sanitize: 'posix', sanitizeReplacement: '-', extraVariables})
+		),
+		fp('What: "a-title"? ')
+	);
+});
+
+test('saveAsPath() sanitizes variable values, but not directories that exist or come from inputs', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const extraVariables = {title: 'AC/DC: Live?'};
+
+	await setup(['tmpfile', 'Shots: 2020/']);
+	t.is(
+		await saveAsPath(
+			fp('Shots: 2020/new.txt'),
+			fp('tmpfile'),
+			'jpg',
+			o('${dirname}/${title}${extname}', {sanitize: 'portable', extraVariables})
+		),
+		fp('Shots: 2020/AC_DC_ Live_.jpg')
+	);
+
+	await setup(['tmpfile', 'Shots: 2020/']);
+	t.is(
+		await saveAsPath(fp('new.txt'), fp('tmpfile'), 'jpg', {
+			destination: 'Shots: 2020/New: ${title}/${basename}',
+			sanitize: 'portable',
+			extraVariables,
+		}),
+		fp('Shots: 2020/New_ AC_DC_ Live_/new.jpg')
+	);
+
+	// Both expansions get the same ids
+	let details: OutputPathDetails | undefined;
+	const onOutputPath = (_: string, outputPathDetails: OutputPathDetails) => (details = outputPathDetails);
+	await setup(['tmpfile']);
+	await saveAsPath(
+		fp('new.txt'),
+		fp('tmpfile'),
+		'jpg',
+		o('${title} ${uid()}', {sanitize: 'portable', extraVariables, onOutputPath})
+	);
+	t.is(Path.basename(details!.sanitizedPath).slice(-10), Path.basename(details!.expandedPath).slice(-10));
+});
+
+test('saveAsPath() truncates long names while keeping the extension', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const extraVariables = {title: 'ž'.repeat(200)};
+
+	await setup(['tmpfile']);
+	const outputPath = await saveAsPath(
+		fp('new.txt'),
+		fp('tmpfile'),
+		'jpg',
+		o('${title}${extname}', {sanitize: 'portable', extraVariables})
+	);
+	const basename = Path.basename(outputPath);
+	t.true(basename.endsWith('ž.jpg'));
+	t.true(Buffer.byteLength(basename) <= 255 - 7);
+});
+
 test('saveAsPath() uses extra variables', async (t) => {
 	const {setup, getFixturePath: fp} = createFixtures();
 	const extraOptions = {extraVariables: {foo: 'bar'}};
 	await setup(['tmpfile']);
 	t.is(await saveAsPath(fp('new.txt'), fp('tmpfile'), 'jpg', o('${foo}', extraOptions)), fp('bar'));
+
+	// They take precedence over built-in variables
+	await setup(['tmpfile', 'in.mp4']);
+	t.is(
+		await saveAsPath(
+			fp('in.mp4'),
+			fp('tmpfile'),
+			'mp4',
+			o('${filename}_${width}x${height}${extname}', {extraVariables: {width: 1920, height: 1080}})
+		),
+		fp('in_1920x1080.mp4')
+	);
 	await setup(['tmpfile']);
 	await t.throwsAsync(() => saveAsPath(fp('new.txt'), fp('tmpfile'), 'jpg', o('${baz}', extraOptions)), {
 		instanceOf: TemplateError,
@@ -294,6 +642,399 @@ test('saveAsPath() generates checksums', async (t) => {
 	}
 });
 
+test('saveAsPath() provides file stat variables', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const mtime = new Date(2020, 4, 15, 12, 0, 0);
+
+	await setup({tmpfile: 'x'.repeat(1536), 'input.txt': 'x'.repeat(3072)});
+	await FSP.utimes(fp('input.txt'), mtime, mtime);
+	t.is(
+		await saveAsPath(
+			fp('input.txt'),
+			fp('tmpfile'),
+			'txt',
+			o("${srcMtime.format('YYYY-MM-DD')}/${size}-${srcSize}-${sizeHuman}-${sizeRatio}")
+		),
+		fp('2020-05-15/1536-3072-1.5KB-0.5')
+	);
+
+	await setup(['tmpfile']);
+	await FSP.chmod(fp('tmpfile'), 0o640);
+	t.is(await saveAsPath(fp('input.txt'), fp('tmpfile'), 'txt', o('${mode}')), fp('640'));
+});
+
+test('checkSaveAsPathOptions() stubs file stat variables', async (t) => {
+	t.is(
+		checkSaveAsPathOptions(
+			o("${srcMtime.format('YYYY')}${srcCtime.year()}${srcBirthtime}${size}${sizeHuman}${mode}")
+		),
+		true
+	);
+});
+
+/**
+ * Builds a big endian TIFF structure with IFD0 and Exif IFD entries.
+ * Numbers are stored as SHORT, strings as ASCII.
+ */
+function makeTiff(ifd0: [number, number | string][], exifIfd: [number, number | string][]) {
+	const exifIfdOffset = 8 + 2 + (ifd0.length + 1) * 12 + 4;
+	let dataOffset = exifIfdOffset + 2 + exifIfd.length * 12 + 4;
+	const data: Buffer[] = [];
+
+	const makeIfd = (entries: [number, number | string][]) => {
+		const ifd = Buffer.alloc(2 + entries.length * 12 + 4);
+		ifd.writeUInt16BE(entries.length, 0);
+		entries.forEach(([tag, value], index) => {
+			const offset = 2 + index * 12;
+			ifd.writeUInt16BE(tag, offset);
+			if (typeof value === 'number') {
+				ifd.writeUInt16BE(tag === 0x8769 ? 4 : 3, offset + 2);
+				ifd.writeUInt32BE(1, offset + 4);
+				if (tag === 0x8769) ifd.writeUInt32BE(value, offset + 8);
+				else ifd.writeUInt16BE(value, offset + 8);
+			} else {
+				const string = Buffer.from(`${value}\0`, 'latin1');
+				ifd.writeUInt16BE(2, offset + 2);
+				ifd.writeUInt32BE(string.length, offset + 4);
+				ifd.writeUInt32BE(dataOffset, offset + 8);
+				dataOffset += string.length;
+				data.push(string);
+			}
+		});
+		return ifd;
+	};
+
+	const header = Buffer.from([0x4d, 0x4d, 0, 42, 0, 0, 0, 8]);
+	return Buffer.concat([header, makeIfd([...ifd0, [0x8769, exifIfdOffset]]), makeIfd(exifIfd), ...data]);
+}
+
+function makeJpeg(width: number, height: number, tiff: Buffer) {
+	const app1 = Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]);
+	const app1Header = Buffer.from([0xff, 0xe1, 0, 0]);
+	app1Header.writeUInt16BE(app1.length + 2, 2);
+	const sof = Buffer.from([0xff, 0xc0, 0, 11, 8, 0, 0, 0, 0, 1, 1, 0x11, 0]);
+	sof.writeUInt16BE(height, 5);
+	sof.writeUInt16BE(width, 7);
+	return Buffer.concat([Buffer.from([0xff, 0xd8]), app1Header, app1, sof, Buffer.from([0xff, 0xda, 0, 2])]);
+}
+
+test('saveAsPath() provides image dimension variables', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const u32be = (value: number) => [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+	const images: Record<string, number[]> = {
+		png: [
+			0x89,
+			0x50,
+			0x4e,
+			0x47,
+			0x0d,
+			0x0a,
+			0x1a,
+			0x0a,
+			0,
+			0,
+			0,
+			13,
+			0x49,
+			0x48,
+			0x44,
+			0x52,
+			...u32be(640),
+			...u32be(480),
+		],
+		gif: [0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x80, 0x02, 0xe0, 0x01],
+		webp: [
+			...Buffer.from('RIFF\0\0\0\0WEBPVP8X', 'latin1'),
+			...[10, 0, 0, 0, 0, 0, 0, 0, 0x7f, 0x02, 0, 0xdf, 0x01, 0],
+		],
+		bmp: [0x42, 0x4d, ...Array(12).fill(0), 40, 0, 0, 0, 0x80, 0x02, 0, 0, 0x20, 0xfe, 0xff, 0xff],
+	};
+
+	for (const [type, bytes] of Object.entries(images)) {
+		await setup([]);
+		await FSP.writeFile(fp('tmpfile'), Buffer.from(bytes));
+		t.is(
+			await saveAsPath(fp('input.txt'), fp('tmpfile'), type, o('${filename}_${width}x${height}${extname}')),
+			fp(`input_640x480.${type}`),
+			`${type} check`
+		);
+	}
+});
+
+test.serial('saveAsPath() limits reads to lengths that fit into the image file', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const ihdr = Buffer.alloc(25);
+	ihdr.writeUInt32BE(13, 0);
+	ihdr.write('IHDR', 4, 'latin1');
+	ihdr.writeUInt32BE(640, 8);
+	ihdr.writeUInt32BE(480, 12);
+	// EXIF chunk claiming to be almost 4 GB long
+	const exif = Buffer.from([0xff, 0xff, 0xff, 0xf0, ...Buffer.from('eXIfMM', 'latin1')]);
+	const png = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), ihdr, exif]);
+	const originalAlloc = Buffer.alloc;
+	let maxAllocSize = 0;
+	Buffer.alloc = ((size: number, ...rest: any[]) => {
+		maxAllocSize = Math.max(maxAllocSize, size);
+		return (originalAlloc as any)(size, ...rest);
+	}) as typeof Buffer.alloc;
+
+	try {
+		await setup([]);
+		await FSP.writeFile(fp('tmpfile'), png);
+		t.is(
+			await saveAsPath(fp('input.txt'), fp('tmpfile'), 'png', o('${filename}_${width}x${height}${extname}')),
+			fp('input_640x480.png')
+		);
+		t.true(maxAllocSize <= png.length);
+	} finally {
+		Buffer.alloc = originalAlloc;
+	}
+});
+
+test('saveAsPath() provides EXIF variables', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const tiff = makeTiff(
+		[
+			[0x010f, 'Canon'],
+			[0x0110, 'Canon EOS R5'],
+			[0x0112, 6],
+		],
+		[
+			[0x9003, '2021:07:04 18:30:00'],
+			[0xa434, 'RF50mm'],
+		]
+	);
+
+	await setup([]);
+	await FSP.writeFile(fp('input.jpg'), makeJpeg(1920, 1080, tiff));
+	await FSP.writeFile(fp('tmpfile'), makeJpeg(960, 540, makeTiff([], [])));
+	t.is(
+		await saveAsPath(
+			fp('input.jpg'),
+			fp('tmpfile'),
+			'jpg',
+			o(
+				"${srcExif.date.format('YYYY/MM')}/${srcExif.model} ${srcExif.lens} ${srcOrientation} ${srcWidth}x${srcHeight} ${width}x${height} ${exif.date}"
+			)
+		),
+		fp('2021/07/Canon EOS R5 RF50mm 6 1920x1080 960x540 undefined')
+	);
+	t.is(
+		checkSaveAsPathOptions(o("${exif.date.format('YYYY')}${exif.model}${width}${srcHeight}${srcExif.lens}")),
+		true
+	);
+});
+
+test('saveAsPath() provides multi-input variables', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const inputs = [fp('a/b/clip - 1.mp4'), fp('a/c/clip - 2.mp4'), fp('a/clip - 3.mp4')];
+
+	await setup(['tmpfile']);
+	t.is(
+		await saveAsPath(
+			inputs,
+			fp('tmpfile'),
+			'mp4',
+			o(
+				"${commonPrefix} ${count} ${firstFilename}-${lastFilename} ${inputs.map((i) => i.ext).join('')}${extname}"
+			)
+		),
+		fp('a/b/clip 3 clip - 1-clip - 3 .mp4.mp4.mp4.mp4')
+	);
+
+	await setup(['tmpfile']);
+	t.is(
+		await saveAsPath(inputs, fp('tmpfile'), 'mp4', o('${commonPrefix}${extname}', {resolveFrom: 'common'})),
+		fp('a/clip.mp4')
+	);
+
+	await setup(['tmpfile']);
+	t.is(await saveAsPath(inputs, fp('tmpfile'), 'mp4', o('${commonDirname}/merged${extname}')), fp('a/merged.mp4'));
+	t.is(checkSaveAsPathOptions(o('${count}${inputs[0].name}${commonDirname}${commonPrefix}${lastFilename}')), true);
+});
+
+test('saveAsPath() provides template helpers', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+
+	await setup(['tmpfile']);
+	t.is(
+		await saveAsPath(
+			fp('a/Nested Dir/Café Noir!.png'),
+			fp('tmpfile'),
+			'jpg',
+			o(
+				"../../${relative('../..')}/${slug(filename)} ${pad(7, 3)} ${truncate('long name', 6, '…')} ${title('hello world')} ${upper(parent(2))} ${lower('ABC')} ${replace('a b c', ' ', '_')} ${transliterate('Žluťoučký kůň')} ${sanitize('x|y')} ${hash('foo', 4)}"
+			)
+		),
+		fp('a/Nested Dir/cafe-noir 007 long … Hello World A abc a_b_c Zlutoucky kun x_y 2c26')
+	);
+	t.is(checkSaveAsPathOptions(o('${slug(pad(parent(), 2))}${relative(dirname)}${hash(title(basename))}')), true);
+	t.deepEqual(analyzeSaveAsPathOptions(o("${sanitize(basename)}${slug('x')}")).problems, []);
+
+	// Helpers don't get to allocate strings longer than safe templates allow
+	for (const destination of [
+		'${pad(1, 2e8)}',
+		"${replace(pad(1, 20000), '0', '00')}",
+		"${replace('abc', '', pad(1, 20000))}",
+	]) {
+		t.throws(() => checkSaveAsPathOptions({destination, safe: true}), {
+			instanceOf: TemplateError,
+			message: 'String is too long, max length is 32768.',
+		});
+	}
+});
+
+test('saveAsPath() issues persistent sequence numbers', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const sequenceStore = Path.join(fixturesRoot, 'sequences.json');
+	const options = {destination: "scan_${seq('scan', {pad: 4})}${extname}", sequenceStore};
+
+	await setup(['tmp1', 'tmp2']);
+	t.is(await saveAsPath(fp('input.png'), fp('tmp1'), 'pdf', options), fp('scan_0001.pdf'));
+	// Previews and checks don't consume counters
+	t.is((await planSaveAsPath(fp('input.png'), fp('tmp2'), 'pdf', options)).outputPath, fp('scan_0002.pdf'));
+	t.is(checkSaveAsPathOptions(options), true);
+	t.is(await saveAsPath(fp('input.png'), fp('tmp2'), 'pdf', {...options, safe: true}), fp('scan_0002.pdf'));
+
+	// Only saves that put the output in place consume counters
+	await setup({tmp1: 'new', 'scan_0003.pdf': 'old'});
+	await t.throwsAsync(() => saveAsPath(fp('input.png'), fp('tmp1'), 'pdf', {...options, conflict: 'fail'}), {
+		instanceOf: ConflictError,
+	});
+	t.is(await saveAsPath(fp('input.png'), fp('tmp1'), 'pdf', {...options, conflict: 'skip'}), fp('scan_0003.pdf'));
+	await setup(['tmp1', 'tmp2']);
+	const onOutputPath = () => {
+		throw new Error('aborted');
+	};
+	await t.throwsAsync(() => saveAsPath(fp('input.png'), fp('tmp1'), 'pdf', {...options, onOutputPath}), {
+		message: 'aborted',
+	});
+	t.is(await saveAsPath(fp('input.png'), fp('tmp2'), 'pdf', options), fp('scan_0003.pdf'));
+
+	// Store is only locked while values are issued, other saves can get theirs in the meantime,
+	// and values a failed save can't give back anymore leave a gap
+	await setup(['tmp1', 'tmp2', 'tmp3', 'scan_0004.pdf']);
+	const lockPath = `${sequenceStore}.lock`;
+	const onConflict = async () => {
+		t.false(existsSync(lockPath));
+		t.is(await saveAsPath(fp('input.png'), fp('tmp2'), 'pdf', options), fp('scan_0005.pdf'));
+		return 'fail' as const;
+	};
+	await t.throwsAsync(() => saveAsPath(fp('input.png'), fp('tmp1'), 'pdf', {...options, onConflict}), {
+		instanceOf: ConflictError,
+	});
+	t.is(await saveAsPath(fp('input.png'), fp('tmp3'), 'pdf', options), fp('scan_0006.pdf'));
+
+	// Stale locks of crashed processes are taken over
+	const staleTime = new Date(Date.now() - 60000);
+	await FSP.writeFile(lockPath, '1:crashed');
+	await FSP.utimes(lockPath, staleTime, staleTime);
+	await resetSequence('scan', {store: sequenceStore});
+	t.false(existsSync(lockPath));
+
+	// Parallel saves never get the same value, and one save gets one value
+	await setup(['1', '2', '3', '4']);
+	const outputs = await Promise.all(
+		['1', '2', '3', '4'].map((name) =>
+			saveAsPath(fp('input'), fp(name), null, o('${seq()}-${seq()}', {sequenceStore}))
+		)
+	);
+	t.deepEqual(outputs.sort(), [fp('1-1'), fp('2-2'), fp('3-3'), fp('4-4')]);
+
+	const pageOptions = {destination: "${seq('page', {scope: 'directory', start: 0})}", sequenceStore};
+	await setup(['x/tmp1', 'x/tmp2', 'y/tmp1']);
+	t.is(await saveAsPath(fp('x/input'), fp('x/tmp1'), null, pageOptions), fp('x/0'));
+	t.is(await saveAsPath(fp('y/input'), fp('y/tmp1'), null, pageOptions), fp('y/0'));
+	t.is(await saveAsPath(fp('x/input'), fp('x/tmp2'), null, pageOptions), fp('x/1'));
+
+	await resetSequence('page', {store: sequenceStore, directory: fp('x')});
+	await setup(['x/tmp1', 'y/tmp1', 'tmp1']);
+	t.is(await saveAsPath(fp('x/input'), fp('x/tmp1'), null, pageOptions), fp('x/0'));
+	t.is(await saveAsPath(fp('y/input'), fp('y/tmp1'), null, pageOptions), fp('y/1'));
+
+	await resetSequence(undefined, {store: sequenceStore});
+	t.is(await saveAsPath(fp('input.png'), fp('tmp1'), 'pdf', options), fp('scan_0001.pdf'));
+
+	const error = t.throws(() => checkSaveAsPathOptions({destination: "${seq('page', {scope: 'file'})}"}), {
+		instanceOf: TemplateError,
+	});
+	t.is(error?.message, 'seq() scope has to be "global" or "directory", received "file".');
+});
+
+test('saveAsPath() resolves only referenced lazy extra variables', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const calls: string[] = [];
+	const extraVariables = {
+		duration: lazyVariable(async () => {
+			calls.push('duration');
+			return 42;
+		}),
+		codec: Promise.resolve('h264'),
+		unused: lazyVariable(() => {
+			calls.push('unused');
+			return 'x';
+		}),
+		failing: Promise.reject(new Error('nope')),
+		pad: (value: number) => `${value}`.padStart(4, '0'),
+	};
+
+	await setup(['tmpfile']);
+	t.is(
+		await saveAsPath(fp('input.mp4'), fp('tmpfile'), 'mp4', o('${pad(duration)}-${codec}', {extraVariables})),
+		fp('0042-h264')
+	);
+	t.deepEqual(calls, ['duration']);
+
+	await setup(['tmpfile']);
+	const error = await t.throwsAsync(
+		() => saveAsPath(fp('input.mp4'), fp('tmpfile'), 'mp4', o('${failing}', {extraVariables})),
+		{instanceOf: TemplateError}
+	);
+	t.is(error?.message, 'Variable "failing" failed to load: nope');
+});
+
+test.serial('saveAsPath() handles rejections of extra variables it is not awaiting yet', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const unhandled: unknown[] = [];
+	const onUnhandledRejection = (reason: unknown) => unhandled.push(reason);
+	let rejectB: (error: Error) => void = () => {};
+	const extraVariables = {
+		// Fails while `b` is still waiting for its turn
+		a: lazyVariable(async () => {
+			rejectB(new Error('b failed'));
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			throw new Error('a failed');
+		}),
+		b: new Promise((_, reject) => (rejectB = reject)),
+	};
+
+	process.on('unhandledRejection', onUnhandledRejection);
+	try {
+		await setup(['tmpfile']);
+		await t.throwsAsync(() => saveAsPath(fp('input.mp4'), fp('tmpfile'), 'mp4', o('${a}${b}', {extraVariables})), {
+			message: 'Variable "a" failed to load: a failed',
+		});
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		t.deepEqual(unhandled, []);
+	} finally {
+		process.off('unhandledRejection', onUnhandledRejection);
+	}
+});
+
+test('checkSaveAsPathOptions() validates lazy extra variables without resolving them', async (t) => {
+	let calls = 0;
+	const extraVariables = {
+		probe: lazyVariable(() => {
+			calls++;
+			return {duration: 1};
+		}),
+	};
+
+	t.is(checkSaveAsPathOptions(o('${probe.duration.toFixed(2)}/${probe}', {extraVariables})), true);
+	t.throws(() => checkSaveAsPathOptions(o('${probe}${missing}', {extraVariables})), {instanceOf: TemplateError});
+	t.is(calls, 0);
+});
+
 test(`saveAsPath() triggers onOutputPath before it's done`, async (t) => {
 	const {setup, getFixturePath: fp} = createFixtures();
 	let outputPath: string = '';
@@ -311,3 +1052,711 @@ test(`saveAsPath() triggers onOutputPath before it's done`, async (t) => {
 	);
 	t.is(result, outputPath);
 });
+
+test('saveAsPath() restores originals when output fails to be moved in place', async (t) => {
+	const {setup, getFixturePath: fp, list} = createFixtures();
+
+	// Moving a directory into itself fails only after originals have been dealt with
+	await setup({'foo.txt': 'foo', 'bar.txt': 'bar'});
+	await FSP.mkdir(fp('tmpdir'));
+	await t.throwsAsync(() => saveAsPath(fp('foo.txt'), fp('tmpdir'), null, o('tmpdir/foo:do')));
+	t.deepEqual(await list(), ['bar.txt', 'foo.txt', 'tmpdir/']);
+	t.is(await FSP.readFile(fp('foo.txt'), 'utf8'), 'foo');
+
+	// Overwritten destination is restored as well
+	await setup({'foo.txt': 'foo', 'tmpdir/bar.txt': 'bar'});
+	await t.throwsAsync(() => saveAsPath(fp('foo.txt'), fp('tmpdir'), null, o('tmpdir/bar.txt:o')));
+	t.deepEqual(await list(), ['foo.txt', 'tmpdir/bar.txt']);
+	t.is(await FSP.readFile(fp('tmpdir/bar.txt'), 'utf8'), 'bar');
+});
+
+test.serial('saveAsPath() moves originals to trash when requested', async (t) => {
+	if (process.platform === 'win32' || process.platform === 'darwin') return t.pass();
+
+	const {setup, getFixturePath: fp, list} = createFixtures();
+	const originalDataHome = process.env.XDG_DATA_HOME;
+	process.env.XDG_DATA_HOME = fp('data');
+
+	try {
+		await setup({tmpfile: 'new', 'foo.txt': 'foo', 'data/Trash/files/foo.txt': 'older'});
+		t.is(await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'txt', o(':d', {trashOriginal: true})), fp('foo.txt'));
+		t.deepEqual(await list(), [
+			'data/Trash/files/foo 2.txt',
+			'data/Trash/files/foo.txt',
+			'data/Trash/info/foo 2.txt.trashinfo',
+			'foo.txt',
+		]);
+		t.is(await FSP.readFile(fp('foo.txt'), 'utf8'), 'new');
+		t.is(await FSP.readFile(fp('data/Trash/files/foo 2.txt'), 'utf8'), 'foo');
+		const info = await FSP.readFile(fp('data/Trash/info/foo 2.txt.trashinfo'), 'utf8');
+		t.regex(info, /^\[Trash Info\]\nPath=.+\nDeletionDate=\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d\n$/);
+		t.true(info.includes(`Path=${fp('foo.txt').split(Path.sep).map(encodeURIComponent).join('/')}\n`));
+	} finally {
+		if (originalDataHome == null) delete process.env.XDG_DATA_HOME;
+		else process.env.XDG_DATA_HOME = originalDataHome;
+	}
+});
+
+test.serial('saveAsPath() keeps originals that fail to be moved to trash', async (t) => {
+	if (process.platform === 'win32' || process.platform === 'darwin') return t.pass();
+
+	const {setup, getFixturePath: fp, list} = createFixtures();
+	const originalDataHome = process.env.XDG_DATA_HOME;
+	process.env.XDG_DATA_HOME = fp('data');
+
+	try {
+		// Unusable trash is detected before anything changes
+		await setup({tmpfile: 'new', 'foo.txt': 'foo', 'data/Trash': ''});
+		await t.throwsAsync(() => saveAsPath(fp('foo.txt'), fp('tmpfile'), 'txt', o(':d', {trashOriginal: true})), {
+			instanceOf: TrashError,
+		});
+		t.deepEqual(await list(), ['data/Trash', 'foo.txt', 'tmpfile']);
+
+		// Trash that breaks once the output is in place
+		await setup({tmpfile: 'new', 'foo.txt': 'foo', 'data/': ''});
+		let deleted: string[] | undefined;
+		const outputPath = await saveAsPath(
+			fp('foo.txt'),
+			fp('tmpfile'),
+			'txt',
+			o(':d', {
+				trashOriginal: true,
+				onOutputPath: () => {
+					rmSync(fp('data/Trash'), {recursive: true});
+					writeFileSync(fp('data/Trash'), '');
+				},
+				onComplete: (result) => (deleted = result.deleted),
+			})
+		);
+		t.is(outputPath, fp('foo.txt'));
+		t.deepEqual(deleted, []);
+		t.deepEqual(await list(), ['data/Trash', 'foo 1.txt', 'foo.txt']);
+		t.is(await FSP.readFile(fp('foo.txt'), 'utf8'), 'new');
+		t.is(await FSP.readFile(fp('foo 1.txt'), 'utf8'), 'foo');
+	} finally {
+		if (originalDataHome == null) delete process.env.XDG_DATA_HOME;
+		else process.env.XDG_DATA_HOME = originalDataHome;
+	}
+});
+
+test('saveAsPath() supports conflict strategies', async (t) => {
+	const {setup, getFixturePath: fp, list} = createFixtures();
+
+	await setup({tmpfile: 'new', 'foo.txt': 'foo', 'foo.jpg': 'old'});
+	let skipped: boolean | undefined;
+	const onOutputPath = (_: string, details: {skipped: boolean}) => (skipped = details.skipped);
+	t.is(
+		await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', o(':d', {conflict: 'skip', onOutputPath})),
+		fp('foo.jpg')
+	);
+	t.is(skipped, true);
+	t.deepEqual(await list(), ['foo.jpg', 'foo.txt']);
+	t.is(await FSP.readFile(fp('foo.jpg'), 'utf8'), 'old');
+
+	await setup({tmpfile: 'new', 'foo.txt': 'foo', 'foo.jpg': 'old'});
+	const error = await t.throwsAsync<ConflictError>(
+		() => saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', o('', {conflict: 'fail'})),
+		{instanceOf: ConflictError}
+	);
+	t.is(error?.existingPath, fp('foo.jpg'));
+	t.deepEqual(await list(), ['foo.jpg', 'foo.txt', 'tmpfile']);
+
+	await setup({tmpfile: 'new', 'foo.txt': 'foo', 'foo.jpg': 'older'});
+	t.is(
+		await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', o('', {conflict: 'overwrite-if-larger'})),
+		fp('foo 1.jpg')
+	);
+	await setup({tmpfile: 'new', 'foo.txt': 'foo', 'foo.jpg': 'old'});
+	t.is(
+		await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', o('', {conflict: 'overwrite-if-identical-checksum'})),
+		fp('foo 1.jpg')
+	);
+	await setup({tmpfile: 'new', 'foo.txt': 'foo', 'foo.jpg': 'new'});
+	t.is(
+		await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', o('', {conflict: 'overwrite-if-identical-checksum'})),
+		fp('foo.jpg')
+	);
+	t.deepEqual(await list(), ['foo.jpg', 'foo.txt']);
+
+	await setup({tmpfile: 'new', 'foo.txt': 'foo', 'foo.jpg': 'older'});
+	t.is(
+		await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', o('', {conflict: 'overwrite-if-smaller'})),
+		fp('foo.jpg')
+	);
+	t.is(await FSP.readFile(fp('foo.jpg'), 'utf8'), 'new');
+	await setup({tmpfile: 'new', 'foo.txt': 'foo', 'foo.jpg': 'ol'});
+	t.is(
+		await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', o('', {conflict: 'overwrite-if-smaller'})),
+		fp('foo 1.jpg')
+	);
+
+	// Input is compared, not the file that has just been written
+	const setTimes = async (file: string, date: string) => FSP.utimes(fp(file), new Date(date), new Date(date));
+	await setup({tmpfile: 'new', 'foo.txt': 'foo', 'foo.jpg': 'old'});
+	await setTimes('foo.jpg', '2020-01-01');
+	await setTimes('foo.txt', '2021-01-01');
+	t.is(await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', o('', {conflict: 'overwrite-if-newer'})), fp('foo.jpg'));
+	t.is(await FSP.readFile(fp('foo.jpg'), 'utf8'), 'new');
+	await setup({tmpfile: 'new', 'foo.txt': 'foo', 'foo.jpg': 'old'});
+	await setTimes('foo.jpg', '2020-01-01');
+	await setTimes('foo.txt', '2019-01-01');
+	t.is(
+		await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', o('', {conflict: 'overwrite-if-newer'})),
+		fp('foo 1.jpg')
+	);
+
+	// Originals are never overwritten when they shouldn't be deleted
+	await setup({tmpfile: 'new', 'foo.txt': 'foo'});
+	t.is(await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'txt', o('', {conflict: 'overwrite'})), fp('foo 1.txt'));
+});
+
+test('saveAsPath() migrates overwriteDestination of profiles saved before conflict strategies', async (t) => {
+	const {setup, getFixturePath: fp, list} = createFixtures();
+	const item = makeOptionSchema().schema.find((item: any) => item.name === 'overwriteDestination');
+	t.true(item.isHidden(false));
+	t.false(item.isHidden(true));
+
+	// Default of `conflict` doesn't override it
+	await setup({tmpfile: 'new', 'foo.txt': 'foo', 'foo.jpg': 'old'});
+	t.is(
+		await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', {conflict: 'increment', overwriteDestination: true}),
+		fp('foo.jpg')
+	);
+	t.is(await FSP.readFile(fp('foo.jpg'), 'utf8'), 'new');
+
+	// Other strategies still apply
+	await setup({tmpfile: 'new', 'foo.txt': 'foo', 'foo.jpg': 'old'});
+	t.is(
+		await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', {conflict: 'skip', overwriteDestination: true}),
+		fp('foo.jpg')
+	);
+	t.deepEqual(await list(), ['foo.jpg', 'foo.txt']);
+	t.is(await FSP.readFile(fp('foo.jpg'), 'utf8'), 'old');
+});
+
+test('saveAsPath() accepts custom conflict resolver', async (t) => {
+	const {setup, getFixturePath: fp, list} = createFixtures();
+	const calls: [string, string][] = [];
+	await setup(['tmpfile', 'foo.jpg', 'foo 1.jpg']);
+	const outputPath = await saveAsPath(
+		fp('foo.txt'),
+		fp('tmpfile'),
+		'jpg',
+		o('', {
+			onConflict: async (existingPath, candidatePath) => {
+				calls.push([existingPath, candidatePath]);
+				return calls.length > 1 ? 'overwrite' : 'increment';
+			},
+		})
+	);
+	t.is(outputPath, fp('foo 1.jpg'));
+	t.deepEqual(calls, [
+		[fp('foo.jpg'), fp('tmpfile')],
+		[fp('foo 1.jpg'), fp('tmpfile')],
+	]);
+	t.deepEqual(await list(), ['foo 1.jpg', 'foo.jpg']);
+});
+
+test('planSaveAsPath() describes the plan without touching the filesystem', async (t) => {
+	const {setup, getFixturePath: fp, list} = createFixtures();
+	await setup(['tmpfile', 'foo.txt', 'foo.jpg', 'foo 1.jpg']);
+	const plan = await planSaveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', o(':d'));
+	t.deepEqual(plan, {
+		template: '${basename}',
+		expandedPath: fp('foo.jpg'),
+		sanitizedPath: fp('foo.jpg'),
+		outputPath: fp('foo 2.jpg'),
+		skipped: false,
+		candidates: [
+			{path: fp('foo.jpg'), accepted: false, reason: 'exists'},
+			{path: fp('foo 1.jpg'), accepted: false, reason: 'exists'},
+			{path: fp('foo 2.jpg'), accepted: true, reason: 'free'},
+		],
+		overwrites: null,
+		merges: null,
+		deletes: [fp('foo.txt')],
+		sidecars: [],
+		deleteMethod: 'delete',
+		move: 'rename',
+	});
+	t.deepEqual(await list(), ['foo 1.jpg', 'foo.jpg', 'foo.txt', 'tmpfile']);
+});
+
+test('planSaveAsPath() reports overwrites and replaced originals', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+
+	await setup(['tmpfile', 'foo.txt', 'foo.jpg']);
+	let plan = await planSaveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', o(':o'));
+	t.is(plan.outputPath, fp('foo.jpg'));
+	t.is(plan.overwrites, fp('foo.jpg'));
+	t.deepEqual(plan.deletes, []);
+
+	await setup(['tmpfile', 'foo.txt']);
+	plan = await planSaveAsPath(fp('foo.txt'), fp('tmpfile'), 'txt', o(':d'));
+	t.deepEqual(plan.candidates, [{path: fp('foo.txt'), accepted: true, reason: 'replaces-original'}]);
+	t.is(plan.overwrites, null);
+	t.deepEqual(plan.deletes, [fp('foo.txt')]);
+});
+
+test('saveAsPath() recognizes originals behind hard links and symlinked directories', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+
+	await setup({tmpfile: 'new', 'real/foo.txt': 'original'});
+	await FSP.link(fp('real/foo.txt'), fp('real/bar.txt'));
+	const plan = await planSaveAsPath(fp('real/foo.txt'), fp('tmpfile'), 'txt', o('bar.txt:o'));
+	t.deepEqual(plan.candidates, [
+		{path: fp('real/bar.txt'), accepted: false, reason: 'keeps-original'},
+		{path: fp('real/bar 1.txt'), accepted: true, reason: 'free'},
+	]);
+
+	await FSP.symlink(fp('real'), fp('link'), 'junction');
+	t.is(await saveAsPath(fp('link/foo.txt'), fp('tmpfile'), 'txt', o('../real/foo.txt:d')), fp('real/foo.txt'));
+	t.is(await FSP.readFile(fp('real/foo.txt'), 'utf8'), 'new');
+	t.is(await FSP.readFile(fp('real/bar.txt'), 'utf8'), 'original');
+});
+
+test('saveAsPath() copies outputs across devices atomically', async (t) => {
+	const {setup, list, getFixturePath: fp} = createFixtures();
+	await setup(['input.txt']);
+
+	// Needs a tmpfs, or other separate device to move from
+	const otherDevice = await FSP.stat('/dev/shm').catch(() => null);
+	if (!otherDevice || otherDevice.dev === (await FSP.stat(fp('input.txt'))).dev) {
+		t.pass('No other device available.');
+		return;
+	}
+
+	const tmpDirectory = await FSP.mkdtemp(Path.join('/dev/shm', 'save-as-path-'));
+	try {
+		const tmpFile = Path.join(tmpDirectory, 'file');
+		const mtime = new Date('2020-01-01T00:00:00Z');
+		await FSP.writeFile(tmpFile, 'contents');
+		await FSP.chmod(tmpFile, 0o640);
+		await FSP.utimes(tmpFile, mtime, mtime);
+
+		t.is(await saveAsPath(fp('input.txt'), tmpFile, 'md', {verifyCopy: true}), fp('input.md'));
+		const stat = await FSP.stat(fp('input.md'));
+		t.is(await FSP.readFile(fp('input.md'), 'utf8'), 'contents');
+		t.is(stat.mtimeMs, mtime.getTime());
+		t.is(stat.mode & 0o777, 0o640);
+		t.deepEqual(await list(), ['input.md', 'input.txt']);
+		await t.throwsAsync(FSP.access(tmpFile));
+
+		const tmpTree = Path.join(tmpDirectory, 'tree');
+		await FSP.mkdir(Path.join(tmpTree, 'nested'), {recursive: true});
+		await FSP.writeFile(Path.join(tmpTree, 'nested/file'), 'nested');
+		t.is(await saveAsPath(fp('input.txt'), tmpTree, null, o('${filename}-tree')), fp('input-tree'));
+		t.deepEqual(await list(), ['input-tree/nested/file', 'input.md', 'input.txt']);
+
+		// Aborted copy leaves nothing behind, and temporary file intact
+		const tmpBig = Path.join(tmpDirectory, 'big');
+		const progress: SaveAsPathProgress[] = [];
+		const controller = new AbortController();
+		await FSP.writeFile(tmpBig, Buffer.alloc(3 * 1024 * 1024));
+		const save = saveAsPath(fp('input.txt'), tmpBig, 'bin', {
+			signal: controller.signal,
+			onProgress: (event) => {
+				progress.push(event);
+				controller.abort();
+			},
+		});
+		await t.throwsAsync(save, {name: 'AbortError'});
+		t.deepEqual(progress, [{stage: 'copy', path: tmpBig, bytesCopied: 1024 * 1024, totalBytes: 3 * 1024 * 1024}]);
+		t.deepEqual(await list(), ['input-tree/nested/file', 'input.md', 'input.txt']);
+		t.is((await FSP.stat(tmpBig)).size, 3 * 1024 * 1024);
+	} finally {
+		await FSP.rm(tmpDirectory, {recursive: true, force: true});
+	}
+});
+
+test('saveAsPath() reports lifecycle events', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const events: unknown[] = [];
+	const checksums: string[][] = [];
+	const progress: SaveAsPathProgress[] = [];
+
+	await setup({tmpfile: 'x'.repeat(100000), 'foo.txt': 'original', 'foo.jpg': 'different'});
+	const outputPath = await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', {
+		deleteOriginal: true,
+		conflict: 'overwrite-if-identical-checksum',
+		onProgress: (event) => progress.push(event),
+		onChecksum: (checksum, {path, algorithm}) => checksums.push([path, algorithm]),
+		onCollision: (path, reason) => events.push(['collision', path, reason]),
+		onDeleteOriginal: (path, method) => events.push(['delete', path, method]),
+		onComplete: (result) => events.push(['complete', result]),
+	});
+
+	t.is(outputPath, fp('foo 1.jpg'));
+	t.deepEqual(events, [
+		['collision', fp('foo.jpg'), 'exists'],
+		['delete', fp('foo.txt'), 'delete'],
+		[
+			'complete',
+			{
+				outputPath: fp('foo 1.jpg'),
+				skipped: false,
+				expandedPath: fp('foo.jpg'),
+				sanitizedPath: fp('foo.jpg'),
+				deleted: [fp('foo.txt')],
+				sidecars: [],
+			},
+		],
+	]);
+	t.deepEqual(checksums.sort(), [
+		[fp('foo.jpg'), 'sha256'],
+		[fp('tmpfile'), 'sha256'],
+	]);
+	t.deepEqual(progress.filter((event) => event.path === fp('tmpfile')).pop(), {
+		stage: 'checksum',
+		path: fp('tmpfile'),
+		bytesCopied: 100000,
+		totalBytes: 100000,
+	});
+});
+
+test('saveAsPath() can be aborted, and leaves temporary file intact', async (t) => {
+	const {setup, list, getFixturePath: fp} = createFixtures();
+
+	await setup({tmpfile: 'x'.repeat(1000000), 'foo.txt': ''});
+	const controller = new AbortController();
+	const error = await t.throwsAsync(
+		saveAsPath(fp('foo.txt'), fp('tmpfile'), 'txt', {
+			destination: '${md5}${extname}',
+			signal: controller.signal,
+			onProgress: () => controller.abort(),
+		})
+	);
+	t.is(error?.name, 'AbortError');
+	t.deepEqual(await list(), ['foo.txt', 'tmpfile']);
+
+	await t.throwsAsync(saveAsPath(fp('foo.txt'), fp('tmpfile'), 'txt', {signal: AbortSignal.abort()}), {
+		name: 'AbortError',
+	});
+	t.deepEqual(await list(), ['foo.txt', 'tmpfile']);
+});
+
+test('saveAsPath() preserves metadata of the original', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const mtime = new Date('2020-01-02T03:04:05.000Z');
+
+	await setup({tmpfile: 'new', 'foo.txt': 'original'});
+	await FSP.chmod(fp('foo.txt'), 0o640);
+	await FSP.utimes(fp('foo.txt'), mtime, mtime);
+	const outputPath = await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', {
+		deleteOriginal: true,
+		preserveMetadata: true,
+	});
+
+	const stat = await FSP.stat(outputPath);
+	t.is(outputPath, fp('foo.jpg'));
+	t.is(stat.mode & 0o777, 0o640);
+	t.is(stat.mtime.getTime(), mtime.getTime());
+	t.is(stat.atime.getTime(), mtime.getTime());
+	await t.throwsAsync(FSP.stat(fp('foo.txt')), {code: 'ENOENT'});
+
+	await setup({tmpfile: 'new', 'foo.txt': 'original'});
+	await FSP.utimes(fp('foo.txt'), mtime, mtime);
+	await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg');
+	t.not((await FSP.stat(fp('foo.jpg'))).mtime.getTime(), mtime.getTime());
+});
+
+test('saveAsPath() preserves extended attributes where tools to manage them are available', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+
+	await setup({tmpfile: 'new', 'foo.txt': 'original'});
+	try {
+		if (process.platform === 'darwin') execFileSync('xattr', ['-w', 'user.test', 'value', fp('foo.txt')]);
+		else execFileSync('setfattr', ['-n', 'user.test', '-v', 'value', '--', fp('foo.txt')]);
+	} catch {
+		// Tools are not installed, or filesystem doesn't support extended attributes
+		t.pass();
+		return;
+	}
+
+	const outputPath = await saveAsPath(fp('foo.txt'), fp('tmpfile'), 'jpg', {
+		deleteOriginal: true,
+		preserveMetadata: true,
+	});
+	const value =
+		process.platform === 'darwin'
+			? execFileSync('xattr', ['-p', 'user.test', outputPath], {encoding: 'utf8'}).trim()
+			: execFileSync('getfattr', ['--only-values', '-n', 'user.test', '--', outputPath], {encoding: 'utf8'});
+	t.is(value, 'value');
+});
+
+test('saveAsPath() computes deterministic checksums of directory outputs', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+	const plan = async (tmpPath: string) =>
+		Path.basename((await planSaveAsPath(fp('foo.txt'), fp(tmpPath), null, o('${sha1}'))).outputPath);
+
+	// Same tree created in a different order
+	await setup({'foo.txt': '', 'a/empty/': '', 'a/sub/y.txt': 'y', 'a/x.txt': 'x', 'b/empty/': '', 'b/x.txt': 'x'});
+	await FSP.mkdir(fp('b/sub'));
+	await FSP.writeFile(fp('b/sub/y.txt'), 'y');
+	const checksum = await plan('a');
+	t.regex(checksum, /^[0-9a-f]{40}$/);
+	t.is(await plan('b'), checksum);
+
+	await FSP.writeFile(fp('b/sub/y.txt'), 'z');
+	t.not(await plan('b'), checksum);
+	await FSP.writeFile(fp('b/sub/y.txt'), 'y');
+	await FSP.rename(fp('b/empty'), fp('b/other'));
+	t.not(await plan('b'), checksum);
+});
+
+test('saveAsPath() increments directory outputs without extensions', async (t) => {
+	const {setup, list, getFixturePath: fp} = createFixtures();
+
+	await setup({'foo.txt': '', 'tmpdir/a.txt': 'new', 'photos.2020/a.txt': 'old'});
+	const outputPath = await saveAsPath(fp('foo.txt'), fp('tmpdir'), null, o('photos.2020'));
+	t.is(outputPath, fp('photos.2020 1'));
+	t.deepEqual(await list(), ['foo.txt', 'photos.2020 1/a.txt', 'photos.2020/a.txt']);
+});
+
+test('saveAsPath() supports policies for existing directories', async (t) => {
+	const {setup, list, getFixturePath: fp} = createFixtures();
+	const files = {
+		'foo.txt': '',
+		'tmpdir/a.txt': 'new',
+		'tmpdir/sub/b.txt': 'new',
+		'out/a.txt': 'old',
+		'out/c.txt': 'old',
+	};
+
+	await setup(files);
+	const plan = await planSaveAsPath(fp('foo.txt'), fp('tmpdir'), null, o('out', {directoryConflict: 'merge'}));
+	t.is(plan.merges, fp('out'));
+	t.is(plan.overwrites, null);
+	t.is(await saveAsPath(fp('foo.txt'), fp('tmpdir'), null, o('out', {directoryConflict: 'merge'})), fp('out'));
+	t.deepEqual(await list(), ['foo.txt', 'out/a.txt', 'out/c.txt', 'out/sub/b.txt']);
+	t.is(await FSP.readFile(fp('out/a.txt'), 'utf8'), 'new');
+
+	await setup(files);
+	t.is(await saveAsPath(fp('foo.txt'), fp('tmpdir'), null, o('out', {directoryConflict: 'replace'})), fp('out'));
+	t.deepEqual(await list(), ['foo.txt', 'out/a.txt', 'out/sub/b.txt']);
+
+	await setup(files);
+	const options = o('out', {conflict: 'overwrite', directoryConflict: 'increment'});
+	t.is(await saveAsPath(fp('foo.txt'), fp('tmpdir'), null, options), fp('out 1'));
+	t.deepEqual(await list(), ['foo.txt', 'out 1/a.txt', 'out 1/sub/b.txt', 'out/a.txt', 'out/c.txt']);
+
+	// Files are still handled by `conflict`
+	await setup({...files, 'out.txt': 'old', tmpfile: 'new'});
+	t.is(
+		await saveAsPath(fp('foo.txt'), fp('tmpfile'), null, o('out.txt', {directoryConflict: 'merge'})),
+		fp('out 1.txt')
+	);
+});
+
+test('saveAsPath() never replaces directories with files, or files with directories', async (t) => {
+	const {setup, list, getFixturePath: fp} = createFixtures();
+
+	await setup({'foo.txt': '', tmpfile: 'new', 'photos/a.jpg': 'old'});
+	t.is(await saveAsPath(fp('foo.txt'), fp('tmpfile'), '', o('photos:o')), fp('photos 1'));
+	t.deepEqual(await list(), ['foo.txt', 'photos 1', 'photos/a.jpg']);
+
+	await setup({'foo.txt': '', 'tmpdir/a.jpg': 'new', photos: 'old'});
+	const options = o('photos', {conflict: 'overwrite', directoryConflict: 'replace'});
+	t.is(await saveAsPath(fp('foo.txt'), fp('tmpdir'), null, options), fp('photos 1'));
+	t.deepEqual(await list(), ['foo.txt', 'photos', 'photos 1/a.jpg']);
+
+	// Not even originals that are being deleted
+	await setup({'photos/a.jpg': 'old', tmpfile: 'new'});
+	t.is(await saveAsPath(fp('photos'), fp('tmpfile'), '', o(':d')), fp('photos 1'));
+	t.deepEqual(await list(), ['photos 1']);
+});
+
+test('saveAsPath() recognizes compound extensions', async (t) => {
+	const {setup, getFixturePath: fp} = createFixtures();
+
+	await setup(['tmpfile', 'archive.tar.gz', 'archive.tar.zst']);
+	t.is(await saveAsPath(fp('archive.tar.gz'), fp('tmpfile'), 'tar.zst'), fp('archive 1.tar.zst'));
+	await FSP.writeFile(fp('tmpfile'), '');
+	t.is(
+		await saveAsPath(fp('archive.tar.gz'), fp('tmpfile'), 'tar.gz', {incrementer: 'parentheses'}),
+		fp('archive (1).tar.gz')
+	);
+
+	// Multi-part output extension is always treated as one
+	await setup(['tmpfile', 'config.json', 'config.backup.json']);
+	t.is(await saveAsPath(fp('config.json'), fp('tmpfile'), 'backup.json'), fp('config 1.backup.json'));
+
+	await setup(['tmpfile']);
+	const plan = async (inputPath: string, options: SaveAsPathOptions) =>
+		Path.basename((await planSaveAsPath(fp(inputPath), fp('tmpfile'), null, options)).outputPath);
+	const destination = '${filename}|${srcExt}|${srcextname}|${inputs[0].name}';
+	t.is(await plan('ARCHIVE.TAR.GZ', {destination}), 'ARCHIVE|TAR.GZ|.TAR.GZ|ARCHIVE');
+	t.is(await plan('config.backup.json', {destination}), 'config.backup|json|.json|config.backup');
+	t.is(
+		await plan('config.backup.json', {destination, compoundExtensions: ['backup.json']}),
+		'config|backup.json|.backup.json|config'
+	);
+});
+
+test('saveAsPath() carries sidecars over to the output', async (t) => {
+	const {setup, list, getFixturePath: fp} = createFixtures();
+	const files = {
+		tmpfile: 'new',
+		'IMG.JPG': 'original',
+		'IMG.xmp': 'xmp',
+		'IMG.JPG.json': 'json',
+		'IMG.en.srt': 'srt',
+		'IMG.txt': 'unrelated',
+		'IMGA.xmp': 'unrelated',
+		'out/IMG.jpg': 'existing',
+	};
+
+	await setup(files);
+	const options = {destination: 'out/${basename}', sidecars: ['xmp', 'json', '*.srt']};
+	const plan = await planSaveAsPath(fp('IMG.JPG'), fp('tmpfile'), 'jpg', options);
+	t.deepEqual(plan.sidecars, [
+		{path: fp('IMG.JPG.json'), outputPath: fp('out/IMG 1.jpg.json')},
+		{path: fp('IMG.en.srt'), outputPath: fp('out/IMG 1.en.srt')},
+		{path: fp('IMG.xmp'), outputPath: fp('out/IMG 1.xmp')},
+	]);
+
+	let result: any;
+	await saveAsPath(fp('IMG.JPG'), fp('tmpfile'), 'jpg', {...options, onComplete: (value) => (result = value)});
+	t.deepEqual(result.sidecars, [fp('out/IMG 1.jpg.json'), fp('out/IMG 1.en.srt'), fp('out/IMG 1.xmp')]);
+	t.deepEqual(await list(), [
+		'IMG.JPG',
+		'IMG.JPG.json',
+		'IMG.en.srt',
+		'IMG.txt',
+		'IMG.xmp',
+		'IMGA.xmp',
+		'out/IMG 1.en.srt',
+		'out/IMG 1.jpg',
+		'out/IMG 1.jpg.json',
+		'out/IMG 1.xmp',
+		'out/IMG.jpg',
+	]);
+	t.is(await FSP.readFile(fp('out/IMG 1.xmp'), 'utf8'), 'xmp');
+
+	// Deleted together with the original
+	await setup(files);
+	await saveAsPath(fp('IMG.JPG'), fp('tmpfile'), 'jpg', {
+		...options,
+		deleteOriginal: true,
+		onComplete: (value) => (result = value),
+	});
+	t.deepEqual(result.deleted, [fp('IMG.JPG'), fp('IMG.JPG.json'), fp('IMG.en.srt'), fp('IMG.xmp')]);
+	t.deepEqual(await list(), [
+		'IMG.txt',
+		'IMGA.xmp',
+		'out/IMG 1.en.srt',
+		'out/IMG 1.jpg',
+		'out/IMG 1.jpg.json',
+		'out/IMG 1.xmp',
+		'out/IMG.jpg',
+	]);
+
+	// Sidecars already in place are kept
+	await setup({tmpfile: 'new', 'clip.mp4': 'original', 'clip.srt': 'srt'});
+	await saveAsPath(fp('clip.mp4'), fp('tmpfile'), 'mp4', {sidecars: ['srt'], deleteOriginal: true});
+	t.deepEqual(await list(), ['clip.mp4', 'clip.srt']);
+});
+
+test('saveAsPath() resolves conflicts of sidecar paths', async (t) => {
+	const {setup, list, getFixturePath: fp} = createFixtures();
+	const files = {tmpfile: 'new', 'photo.jpg': 'original', 'photo.xmp': 'xmp', 'out/photo 1.xmp': 'unrelated'};
+	const options = {destination: 'out/${basename}', sidecars: ['xmp']};
+
+	// Candidates are incremented until sidecars have free paths too
+	await setup({...files, 'out/photo.jpg': 'existing'});
+	const collisions: string[] = [];
+	const onCollision = (path: string) => collisions.push(path);
+	t.is(await saveAsPath(fp('photo.jpg'), fp('tmpfile'), 'jpg', {...options, onCollision}), fp('out/photo 2.jpg'));
+	t.deepEqual(collisions, [fp('out/photo.jpg'), fp('out/photo 1.jpg')]);
+	t.is(await FSP.readFile(fp('out/photo 1.xmp'), 'utf8'), 'unrelated');
+	t.is(await FSP.readFile(fp('out/photo 2.xmp'), 'utf8'), 'xmp');
+
+	await setup({...files, 'out/photo.xmp': 'old'});
+	t.is(
+		await saveAsPath(fp('photo.jpg'), fp('tmpfile'), 'jpg', {...options, conflict: 'overwrite'}),
+		fp('out/photo.jpg')
+	);
+	t.is(await FSP.readFile(fp('out/photo.xmp'), 'utf8'), 'xmp');
+	t.deepEqual(await list(), ['out/photo 1.xmp', 'out/photo.jpg', 'out/photo.xmp', 'photo.jpg', 'photo.xmp']);
+
+	await setup({...files, 'out/photo.xmp': 'old'});
+	const error = await t.throwsAsync<ConflictError>(
+		() => saveAsPath(fp('photo.jpg'), fp('tmpfile'), 'jpg', {...options, conflict: 'fail'}),
+		{instanceOf: ConflictError}
+	);
+	t.is(error?.existingPath, fp('out/photo.xmp'));
+	t.deepEqual(await list(), ['out/photo 1.xmp', 'out/photo.xmp', 'photo.jpg', 'photo.xmp', 'tmpfile']);
+
+	// Placeholders reserving sidecar paths are removed when the save fails
+	await setup(files);
+	const onOutputPath = () => {
+		throw new Error('oops');
+	};
+	await t.throwsAsync(() => saveAsPath(fp('photo.jpg'), fp('tmpfile'), 'jpg', {...options, onOutputPath}));
+	t.deepEqual(await list(), ['out/photo 1.xmp', 'photo.jpg', 'photo.xmp', 'tmpfile']);
+});
+
+test('saveAsPath() journals saves, which can be undone in batches', async (t) => {
+	const {setup, list, getFixturePath: fp} = createFixtures();
+	const journal = fp('journal.jsonl');
+	const read = (file: string) => FSP.readFile(fp(file), 'utf8');
+	const isBackup = (file: string) => /(^|\/)\.[^/]*\.staged$/.test(file);
+	const listOutputs = async () => (await list()).filter((file) => !isBackup(file));
+
+	await setup({tmp1: 'new', tmp2: 'new', 'foo.txt': 'foo', 'foo.xmp': 'xmp', 'out/foo.jpg': 'old', 'bar.txt': 'bar'});
+	const options = {
+		destination: 'out/${basename}',
+		deleteOriginal: true,
+		overwriteDestination: true,
+		sidecars: ['xmp'],
+		journal,
+		batchId: 'first',
+	};
+	await saveAsPath(fp('foo.txt'), fp('tmp1'), 'jpg', options);
+	await saveAsPath(fp('bar.txt'), fp('tmp2'), 'jpg', {...options, batchId: 'second'});
+
+	// Nothing is destroyed, only staged aside
+	t.deepEqual(await listOutputs(), ['journal.jsonl', 'out/bar.jpg', 'out/foo.jpg', 'out/foo.xmp']);
+	t.is((await list()).filter(isBackup).length, 4);
+
+	// Last batch is undone by default
+	t.deepEqual(await undoJournal(journal), {
+		batchId: 'second',
+		removed: [fp('out/bar.jpg')],
+		restored: [fp('bar.txt')],
+	});
+	t.deepEqual(await listOutputs(), ['bar.txt', 'journal.jsonl', 'out/foo.jpg', 'out/foo.xmp']);
+
+	const result = await undoJournal(journal, {batchId: 'first'});
+	t.deepEqual(result.removed.sort(), [fp('out/foo.jpg'), fp('out/foo.xmp')]);
+	t.deepEqual(result.restored.sort(), [fp('foo.txt'), fp('foo.xmp'), fp('out/foo.jpg')]);
+	t.deepEqual(await list(), ['bar.txt', 'foo.txt', 'foo.xmp', 'journal.jsonl', 'out/foo.jpg']);
+	t.deepEqual(await Promise.all(['foo.txt', 'foo.xmp', 'out/foo.jpg', 'bar.txt'].map(read)), [
+		'foo',
+		'xmp',
+		'old',
+		'bar',
+	]);
+	t.is(await read('journal.jsonl'), '');
+	t.deepEqual(await undoJournal(journal), {batchId: null, removed: [], restored: []});
+});
+
+test('pruneJournal() disposes of backups', async (t) => {
+	const {setup, list, getFixturePath: fp} = createFixtures();
+	const journal = fp('journal.jsonl');
+
+	await setup({tmp1: 'new', tmp2: 'new', 'foo.txt': 'foo', 'bar.txt': 'bar'});
+	await saveAsPath(fp('foo.txt'), fp('tmp1'), 'jpg', {deleteOriginal: true, journal, batchId: 'first'});
+	await saveAsPath(fp('bar.txt'), fp('tmp2'), 'jpg', {deleteOriginal: true, journal, batchId: 'second'});
+
+	await pruneJournal(journal, {batchId: 'first'});
+	t.is((await list()).length, 4);
+	t.deepEqual(
+		(await FSP.readFile(journal, 'utf8')).split('\n').map((line) => line && JSON.parse(line).batchId),
+		['second', '']
+	);
+
+	await pruneJournal(journal);
+	t.deepEqual(await list(), ['bar.jpg', 'foo.jpg', 'journal.jsonl']);
+	t.deepEqual(await undoJournal(journal), {batchId: null, removed: [], restored: []});
+});